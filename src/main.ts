@@ -4,6 +4,9 @@ import { BootScene } from './scenes/BootScene';
 import { MenuScene } from './scenes/MenuScene';
 import { GameScene } from './scenes/GameScene';
 import { ScoreScene } from './scenes/ScoreScene';
+import { PracticeScene } from './scenes/PracticeScene';
+import { HotSeatScene } from './scenes/HotSeatScene';
+import { StandingsScene } from './scenes/StandingsScene';
 
 const config: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
@@ -18,7 +21,7 @@ const config: Phaser.Types.Core.GameConfig = {
       debug: false,
     },
   },
-  scene: [BootScene, MenuScene, GameScene, ScoreScene],
+  scene: [BootScene, MenuScene, GameScene, ScoreScene, PracticeScene, HotSeatScene, StandingsScene],
   scale: {
     mode: Phaser.Scale.FIT,
     autoCenter: Phaser.Scale.CENTER_BOTH,
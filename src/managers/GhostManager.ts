@@ -0,0 +1,194 @@
+import { GHOST_SAMPLE_MS, GHOST_MAX_SAMPLES, GHOST_MAX_STORED } from '../utils/constants';
+import type { GameMode } from './ScoreManager';
+
+const GHOST_INDEX_KEY = 'polegunning_ghosts';   // stored ghost keys, most recently used first
+const GHOST_RUN_PREFIX = 'polegunning_ghost:';  // one localStorage entry per ghost
+const GHOSTS_ENABLED_KEY = 'polegunning_ghosts_on';
+
+// Field counts of the flattened records below
+export const GHOST_FRAME_FIELDS = 5; // t, x, y, sprite frame, angle
+export const GHOST_SHOT_FIELDS = 4;  // t, x, y, angle
+export const GHOST_HIT_FIELDS = 3;   // t, x, y
+
+/**
+ * One recorded attempt. Everything is stored as flat arrays of whole numbers (ms, px,
+ * degrees) rather than a list of objects; a full minute of samples is still ~30 KB.
+ */
+export interface GhostRun {
+  score: number;
+  timeMs?: number; // time attack ranks its ghosts by time instead of score
+  cleared?: boolean; // missing on ghosts kept before failed runs were ranked lower
+  frames: number[];
+  shots: number[];
+  hits: number[];
+}
+
+/** How an attempt is ranked against the stored ghost */
+export interface GhostResult {
+  score: number;
+  timeMs?: number;
+  cleared: boolean;
+}
+
+/** Ghosts are kept per level and mode; each day's daily course is its own mode here */
+export function ghostKey(mode: GameMode, level: number, daily?: string): string {
+  return `${daily ? `daily-${daily}` : mode}/${level}`;
+}
+
+/** A cleared run always beats a failed one; then faster wins when both were timed, otherwise the higher score */
+function beats(run: GhostResult, best: GhostRun): boolean {
+  if (run.cleared !== !!best.cleared) return run.cleared;
+  if (run.timeMs !== undefined && best.timeMs !== undefined) return run.timeMs < best.timeMs;
+  return run.score > best.score;
+}
+
+/**
+ * Records the athlete on every attempt and keeps the best run per level, which GameScene
+ * then replays as a ghost. Recording always runs; the setting only hides playback.
+ */
+export class GhostManager {
+  private static instance: GhostManager;
+
+  private recording: GhostRun | null = null;
+  private lastSampleMs: number = -Infinity;
+  private enabled: boolean = GhostManager.loadEnabled();
+
+  static getInstance(): GhostManager {
+    if (!GhostManager.instance) {
+      GhostManager.instance = new GhostManager();
+    }
+    return GhostManager.instance;
+  }
+
+  startRecording(): void {
+    this.recording = { score: 0, frames: [], shots: [], hits: [] };
+    this.lastSampleMs = -Infinity;
+  }
+
+  /** Note where the athlete is; throttled to one sample per GHOST_SAMPLE_MS of game time */
+  sample(t: number, x: number, y: number, frame: number, angle: number): void {
+    const rec = this.recording;
+    if (!rec || t - this.lastSampleMs < GHOST_SAMPLE_MS) return;
+    if (rec.frames.length >= GHOST_MAX_SAMPLES * GHOST_FRAME_FIELDS) return;
+    this.lastSampleMs = t;
+    rec.frames.push(Math.round(t), Math.round(x), Math.round(y), frame, Math.round(angle));
+  }
+
+  recordShot(t: number, x: number, y: number, angle: number): void {
+    this.recording?.shots.push(Math.round(t), Math.round(x), Math.round(y), Math.round(angle));
+  }
+
+  recordHit(t: number, x: number, y: number): void {
+    this.recording?.hits.push(Math.round(t), Math.round(x), Math.round(y));
+  }
+
+  /** Drop an attempt that won't be ranked (quit, or a mode without ghosts) */
+  cancelRecording(): void {
+    this.recording = null;
+  }
+
+  /** Stop recording; the run replaces the stored ghost if it beats it. Returns true if it did. */
+  finishRecording(key: string, result: GhostResult): boolean {
+    const rec = this.recording;
+    this.recording = null;
+    if (!rec || rec.frames.length === 0) return false;
+
+    const best = this.getBest(key);
+    if (best && !beats(result, best)) return false;
+    rec.score = result.score;
+    rec.timeMs = result.timeMs;
+    rec.cleared = result.cleared;
+    return this.store(key, rec);
+  }
+
+  getBest(key: string): GhostRun | null {
+    try {
+      const data = localStorage.getItem(GHOST_RUN_PREFIX + key);
+      return data ? JSON.parse(data) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** The ghost was raced again, so it's the last to go when storage is trimmed */
+  markPlayed(key: string): void {
+    this.saveIndex([key, ...this.loadIndex().filter(k => k !== key)]);
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  toggleEnabled(): boolean {
+    this.enabled = !this.enabled;
+    try {
+      localStorage.setItem(GHOSTS_ENABLED_KEY, this.enabled ? 'on' : 'off');
+    } catch {
+      // Still applies for this session
+    }
+    return this.enabled;
+  }
+
+  private static loadEnabled(): boolean {
+    try {
+      return localStorage.getItem(GHOSTS_ENABLED_KEY) !== 'off';
+    } catch {
+      return true;
+    }
+  }
+
+  /**
+   * Keep at most GHOST_MAX_STORED ghosts, dropping the least recently used, plus any from
+   * earlier daily courses. If storage is still full the oldest go until the run fits, so
+   * ghosts never crowd out the high score tables.
+   */
+  private store(key: string, run: GhostRun): boolean {
+    const isOldDaily = (k: string) => k.startsWith('daily-') && k.split('/')[0] !== key.split('/')[0];
+    let index = [key, ...this.loadIndex().filter(k => k !== key)];
+    const dropped = index.filter((k, i) => i >= GHOST_MAX_STORED || isOldDaily(k));
+    index = index.filter(k => !dropped.includes(k));
+    dropped.forEach(k => this.remove(k));
+
+    const data = JSON.stringify(run);
+    for (;;) {
+      try {
+        localStorage.setItem(GHOST_RUN_PREFIX + key, data);
+        this.saveIndex(index);
+        return true;
+      } catch {
+        if (index.length <= 1) {
+          this.remove(key);
+          this.saveIndex([]);
+          return false;
+        }
+        this.remove(index.pop()!);
+      }
+    }
+  }
+
+  private remove(key: string): void {
+    try {
+      localStorage.removeItem(GHOST_RUN_PREFIX + key);
+    } catch {
+      // Nothing more to do
+    }
+  }
+
+  private loadIndex(): string[] {
+    try {
+      const data = localStorage.getItem(GHOST_INDEX_KEY);
+      const index = data ? JSON.parse(data) : [];
+      return Array.isArray(index) ? index : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveIndex(index: string[]): void {
+    try {
+      localStorage.setItem(GHOST_INDEX_KEY, JSON.stringify(index));
+    } catch {
+      // The runs themselves are still there; the index just lags behind
+    }
+  }
+}
@@ -1,3 +1,9 @@
+import type { TargetMotion, TargetType } from '../objects/Target';
+import type { HazardType } from '../objects/Hazard';
+import { ARMORED_TARGET_HITS, BOSS_EVERY } from '../utils/constants';
+import { BossId, BOSSES, BOSS_ORDER, bossMaxHealth } from '../utils/bosses';
+import { PowerUpId, POWER_UP_ORDER } from '../utils/powerups';
+
 export interface LevelConfig {
   level: number;
   targets: number;
@@ -5,20 +11,75 @@ export interface LevelConfig {
   requiredHits: number;
   airTime: number;  // seconds
   targetSpread: number; // how spread out targets are (1.0 = normal)
+  barHeight: number; // crossbar height in metres
+  targetMotions?: TargetMotion[]; // per-target motion pattern (missing entries are static)
+  targetTypes?: TargetType[];     // per-target type (missing entries are normal); decoys are extra to requiredHits
+  wind?: number;                  // strongest steady wind (m/s) an attempt can roll; 0/missing = still air
+  stations?: number;              // vaults in a row on one course, targets split between them; missing = 1
+  hazards?: HazardType[];         // threats released, in order, over each airborne window
+  boss?: BossId;                  // boss stage: it has to be brought down (over any of the stations) to pass
+  powerUps?: PowerUpId[];         // capsules hanging in the flight path, split between the stations
+}
+
+/** Practice range setup: a level from the table with a few of its numbers overridden */
+export interface PracticeSettings {
+  level: number;
+  targets: number;       // decoys included, like LevelConfig.targets
+  airTime: number;       // seconds
+  targetSpread: number;
+  spikeWall: boolean;
+  unlimitedAir: boolean; // the airborne window only ends on touching down
 }
 
+/** Air hazards unlocked as levels get harder, easiest first */
+const HAZARD_POOL: HazardType[] = ['bird', 'balloon', 'drone'];
+
+/** Motion patterns unlocked as levels get harder, easiest first */
+const MOTION_POOL: TargetMotion[] = ['patrol', 'bob', 'sine', 'orbit', 'figure8'];
+
 const LEVEL_CONFIGS: LevelConfig[] = [
-  // Level N = N targets
-  { level: 1,  targets: 1,  ammo: 3,  requiredHits: 1,  airTime: 3.5, targetSpread: 0.8 },
-  { level: 2,  targets: 2,  ammo: 4,  requiredHits: 2,  airTime: 3.5, targetSpread: 0.8 },
-  { level: 3,  targets: 3,  ammo: 5,  requiredHits: 3,  airTime: 3.5, targetSpread: 0.9 },
-  { level: 4,  targets: 4,  ammo: 6,  requiredHits: 4,  airTime: 3.5, targetSpread: 0.9 },
-  { level: 5,  targets: 5,  ammo: 7,  requiredHits: 5,  airTime: 3.2, targetSpread: 1.0 },
-  { level: 6,  targets: 6,  ammo: 8,  requiredHits: 6,  airTime: 3.2, targetSpread: 1.0 },
-  { level: 7,  targets: 7,  ammo: 9,  requiredHits: 7,  airTime: 3.0, targetSpread: 1.1 },
-  { level: 8,  targets: 8,  ammo: 10, requiredHits: 8,  airTime: 3.0, targetSpread: 1.1 },
-  { level: 9,  targets: 9,  ammo: 11, requiredHits: 9,  airTime: 2.8, targetSpread: 1.2 },
-  { level: 10, targets: 10, ammo: 12, requiredHits: 10, airTime: 2.8, targetSpread: 1.3 },
+  // Level N = N targets to shoot, plus any decoys; every fifth level is a boss with a small escort instead
+  { level: 1,  targets: 1,  ammo: 3,  requiredHits: 1,  airTime: 3.5, barHeight: 2.00, targetSpread: 0.8 },
+  { level: 2,  targets: 2,  ammo: 4,  requiredHits: 2,  airTime: 3.5, barHeight: 2.25, targetSpread: 0.8 },
+  { level: 3,  targets: 3,  ammo: 5,  requiredHits: 3,  airTime: 3.5, barHeight: 2.50, wind: 1.0, targetSpread: 0.9,
+    targetTypes: ['normal', 'golden', 'normal'],
+    powerUps: ['ammo'] },
+  { level: 4,  targets: 4,  ammo: 8,  requiredHits: 4,  airTime: 3.5, barHeight: 2.75, wind: 1.5, targetSpread: 0.9,
+    targetMotions: ['static', 'patrol', 'static', 'static'],
+    targetTypes: ['normal', 'normal', 'armored', 'normal'],
+    hazards: ['bird'],
+    powerUps: ['airtime'] },
+  { level: 5,  targets: 2,  ammo: 18, requiredHits: 2,  airTime: 3.4, barHeight: 3.00, wind: 2.0, targetSpread: 1.0, stations: 2,
+    targetTypes: ['normal', 'explosive'],
+    hazards: ['balloon'],
+    powerUps: ['tripleshot', 'ammo'],
+    boss: 'blimp' },
+  { level: 6,  targets: 7,  ammo: 10, requiredHits: 6,  airTime: 3.2, barHeight: 3.25, wind: 2.0, targetSpread: 0.8, stations: 2,
+    targetMotions: ['patrol', 'static', 'sine', 'static', 'static', 'bob', 'static'],
+    targetTypes: ['normal', 'armored', 'normal', 'decoy', 'explosive', 'golden', 'normal'],
+    hazards: ['bird', 'drone'],
+    powerUps: ['tripleshot', 'magnet'] },
+  { level: 7,  targets: 8,  ammo: 13, requiredHits: 7,  airTime: 3.0, barHeight: 3.50, wind: 2.5, targetSpread: 1.1,
+    targetMotions: ['static', 'bob', 'orbit', 'static', 'static', 'sine', 'patrol', 'static'],
+    targetTypes: ['armored', 'normal', 'normal', 'decoy', 'explosive', 'normal', 'normal', 'armored'],
+    hazards: ['balloon', 'bird', 'drone'],
+    powerUps: ['bighit'] },
+  { level: 8,  targets: 9,  ammo: 12, requiredHits: 8,  airTime: 3.0, barHeight: 3.75, wind: 3.0, targetSpread: 0.9, stations: 2,
+    targetMotions: ['patrol', 'orbit', 'static', 'sine', 'static', 'bob', 'static', 'orbit', 'patrol'],
+    targetTypes: ['normal', 'decoy', 'explosive', 'normal', 'armored', 'normal', 'normal', 'golden', 'normal'],
+    hazards: ['bird', 'drone', 'bird'],
+    powerUps: ['doubler', 'ammo'] },
+  { level: 9,  targets: 10, ammo: 15, requiredHits: 9,  airTime: 2.8, barHeight: 4.00, wind: 3.5, targetSpread: 1.2,
+    targetMotions: ['bob', 'figure8', 'static', 'orbit', 'static', 'sine', 'patrol', 'static', 'figure8', 'bob'],
+    targetTypes: ['armored', 'normal', 'explosive', 'normal', 'decoy', 'armored', 'normal', 'normal', 'golden', 'normal'],
+    hazards: ['drone', 'balloon', 'bird'],
+    powerUps: ['magnet', 'airtime'] },
+  { level: 10, targets: 3,  ammo: 26, requiredHits: 3,  airTime: 3.0, barHeight: 4.25, wind: 4.0, targetSpread: 0.9, stations: 3,
+    targetMotions: ['static', 'bob', 'patrol'],
+    targetTypes: ['armored', 'normal', 'golden'],
+    hazards: ['bird', 'balloon'],
+    powerUps: ['doubler', 'ammo', 'bighit'],
+    boss: 'mech' },
 ];
 
 export class LevelManager {
@@ -37,28 +98,140 @@ export class LevelManager {
     }
     // Beyond level 10: level N = N targets, procedurally scale difficulty
     const extra = level - LEVEL_CONFIGS.length;
-    return {
+    const targetTypes = this.buildTypes(level, Math.floor(level / 5));
+    const config: LevelConfig = {
       level,
-      targets: level,
-      ammo: level + 2,
+      targets: targetTypes.length,
+      ammo: level + 2 + targetTypes.filter(t => t === 'armored').length * (ARMORED_TARGET_HITS - 1),
       requiredHits: level,
       airTime: Math.max(2.8 - extra * 0.05, 1.8),
-      targetSpread: Math.min(1.3 + extra * 0.05, 2.0),
+      targetSpread: Math.min(0.9 + extra * 0.05, 1.3),
+      barHeight: Math.min(4.25 + extra * 0.1, 5.5),
+      wind: Math.min(4 + extra * 0.2, 6),
+      stations: Math.min(3 + Math.floor(extra / 5), 5),
+      hazards: this.buildHazards(Math.min(4 + Math.floor(extra / 3), 5)),
+      powerUps: this.buildPowerUps(level, 2),
+      targetMotions: this.buildMotions(targetTypes.length, 0.8),
+      targetTypes,
     };
+    return level % BOSS_EVERY === 0 ? this.makeBossStage(config, 0.8) : config;
   }
 
   getArcadeConfig(wave: number): LevelConfig {
-    const targetCount = 2 + Math.floor(wave / 3) + Math.floor(wave / 2);
-    return {
+    const targetCount = Math.min(2 + Math.floor(wave / 3) + Math.floor(wave / 2), 12);
+    const targetTypes = this.buildTypes(targetCount, Math.min(Math.floor(wave / 4), 3));
+    const config: LevelConfig = {
       level: wave,
-      targets: Math.min(targetCount, 12),
+      targets: targetTypes.length,
       ammo: 6 + Math.floor(wave / 2),
-      requiredHits: 0, // In arcade, just score points
+      requiredHits: Math.ceil(targetCount / 2), // Fewer hits than this costs a life
       airTime: Math.max(3.5 - wave * 0.1, 1.5),
       targetSpread: 1.0 + wave * 0.05,
+      barHeight: Math.min(2.0 + (wave - 1) * 0.15, 5.0),
+      wind: Math.min((wave - 1) * 0.4, 5),
+      stations: Math.min(1 + Math.floor(wave / 6), 4),
+      hazards: this.buildHazards(Math.min(Math.floor((wave - 1) / 2), 4)),
+      powerUps: this.buildPowerUps(wave, Math.min(Math.floor(wave / 3), 3)),
+      targetMotions: this.buildMotions(targetTypes.length, Math.min(wave * 0.1, 0.8)),
+      targetTypes,
+    };
+    return wave % BOSS_EVERY === 0 ? this.makeBossStage(config, Math.min(wave * 0.1, 0.8)) : config;
+  }
+
+  /** Practice settings that start out matching a level exactly */
+  getPracticeDefaults(level: number): PracticeSettings {
+    const config = this.getLevelConfig(level);
+    return {
+      level,
+      targets: config.targets,
+      airTime: config.airTime,
+      targetSpread: config.targetSpread,
+      spikeWall: true,
+      unlimitedAir: false,
+    };
+  }
+
+  /** A level's config reshaped by the practice range; ammo never runs short of the line-up */
+  getPracticeConfig(settings: PracticeSettings): LevelConfig {
+    const config = this.getLevelConfig(settings.level);
+    const targetTypes = Array.from({ length: settings.targets }, (_, i) => config.targetTypes?.[i] ?? 'normal');
+    const shootable = targetTypes.filter(t => t !== 'decoy');
+    const armored = shootable.filter(t => t === 'armored').length;
+    return {
+      ...config,
+      targets: settings.targets,
+      requiredHits: shootable.length,
+      ammo: Math.max(config.ammo, shootable.length + armored * (ARMORED_TARGET_HITS - 1) + 2),
+      airTime: settings.airTime,
+      targetSpread: settings.targetSpread,
+      targetMotions: config.targetMotions?.slice(0, settings.targets),
+      targetTypes,
+    };
+  }
+
+  /**
+   * Turn a generated stage into a boss stage: the line-up shrinks to a third as an escort,
+   * the fight gets at least two stations, and there's ammo for every weak point with some to spare.
+   */
+  private makeBossStage(config: LevelConfig, movingShare: number): LevelConfig {
+    const boss = BOSS_ORDER[(config.level / BOSS_EVERY - 1) % BOSS_ORDER.length];
+    const targetTypes = this.buildTypes(Math.ceil(config.requiredHits / 3), 0);
+    const armored = targetTypes.filter(t => t === 'armored').length;
+    return {
+      ...config,
+      targets: targetTypes.length,
+      requiredHits: Math.min(config.requiredHits, targetTypes.length),
+      ammo: targetTypes.length + armored * (ARMORED_TARGET_HITS - 1) + Math.ceil(bossMaxHealth(BOSSES[boss]) * 1.5),
+      stations: Math.max(config.stations ?? 1, 2),
+      targetMotions: this.buildMotions(targetTypes.length, movingShare),
+      targetTypes,
+      boss,
     };
   }
 
+  /** Mix special targets into a line-up of `count` shootable ones, with decoys spread between them */
+  private buildTypes(count: number, decoys: number): TargetType[] {
+    const types: TargetType[] = [];
+    for (let i = 0; i < count; i++) {
+      if (i % 9 === 4) types.push('golden');
+      else if (i % 4 === 3) types.push('armored');
+      else if (i % 5 === 2) types.push('explosive');
+      else types.push('normal');
+    }
+    for (let d = 0; d < decoys; d++) {
+      types.splice(Math.floor(((d + 1) * types.length) / (decoys + 1)), 0, 'decoy');
+    }
+    return types;
+  }
+
+  /** Take turns through the hazard pool */
+  private buildHazards(count: number): HazardType[] {
+    return Array.from({ length: count }, (_, i) => HAZARD_POOL[i % HAZARD_POOL.length]);
+  }
+
+  /** A run of power-ups from the pool, starting at a different one each stage */
+  private buildPowerUps(stage: number, count: number): PowerUpId[] {
+    return Array.from({ length: count }, (_, i) => POWER_UP_ORDER[(stage + i) % POWER_UP_ORDER.length]);
+  }
+
+  /** Cycle through the motion pool, leaving a share of targets static */
+  private buildMotions(count: number, movingShare: number): TargetMotion[] {
+    const motions: TargetMotion[] = [];
+    const movingEvery = movingShare > 0 ? 1 / movingShare : Infinity;
+    let next = movingEvery / 2;
+    let moving = 0;
+    for (let i = 0; i < count; i++) {
+      if (i >= next) {
+        motions.push(MOTION_POOL[moving % MOTION_POOL.length]);
+        moving++;
+        next += movingEvery;
+      } else {
+        motions.push('static');
+      }
+    }
+    return motions;
+  }
+
   getTotalLevels(): number {
     return LEVEL_CONFIGS.length;
   }
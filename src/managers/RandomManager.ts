@@ -0,0 +1,46 @@
+import Phaser from 'phaser';
+
+/**
+ * Separate streams per kind of randomness, so how one attempt plays out (shots fired,
+ * when a hazard was released) can't shift what another part of the stage rolls.
+ */
+export type RandomStream = 'layout' | 'wind' | 'hazards' | 'drops' | 'spread';
+
+const STREAMS: RandomStream[] = ['layout', 'wind', 'hazards', 'drops', 'spread'];
+
+/**
+ * Seeded randomness for everything that shapes gameplay. A run has one seed; each stage
+ * re-seeds every stream from it, so the same seed always deals the same stages no matter
+ * how earlier ones went. Purely cosmetic effects (debris, particles) don't use it.
+ */
+export class RandomManager {
+  private static instance: RandomManager;
+
+  public seed: string = '';
+  private streams: Map<RandomStream, Phaser.Math.RandomDataGenerator> = new Map();
+
+  static getInstance(): RandomManager {
+    if (!RandomManager.instance) {
+      RandomManager.instance = new RandomManager();
+    }
+    return RandomManager.instance;
+  }
+
+  /** Start a run on a fixed seed (daily challenge), or on a fresh one */
+  newRun(seed?: string): void {
+    this.seed = seed ?? `${Date.now().toString(36)}-${Math.floor(Math.random() * 1e9).toString(36)}`;
+  }
+
+  /** Re-seed every stream for a stage; replaying a stage rolls exactly the same again */
+  startStage(stage: number): void {
+    if (!this.seed) this.newRun();
+    for (const name of STREAMS) {
+      this.streams.set(name, new Phaser.Math.RandomDataGenerator([`${this.seed}/${stage}/${name}`]));
+    }
+  }
+
+  stream(name: RandomStream): Phaser.Math.RandomDataGenerator {
+    if (!this.streams.has(name)) this.startStage(1);
+    return this.streams.get(name)!;
+  }
+}
@@ -1,18 +1,74 @@
+import {
+  ARCADE_START_LIVES, POINTS_WAVE_CLEAR, TARGET_RINGS, POINTS_MOVING_BONUS,
+  POINTS_AMMO_LEFT, POINTS_BAR_PER_METER, PENALTY_BAR_KNOCK,
+  FOCUS_MAX, FOCUS_REFILL_BULLSEYE, FOCUS_REFILL_COMBO,
+  POINTS_ARMORED_BONUS, GOLDEN_POINTS_MULT, PENALTY_DECOY, POINTS_TRICK_SHOT,
+  POINTS_LANDING_CLEAN, POINTS_LANDING_ROUGH, PENALTY_FACEPLANT, STYLE_MULT_MAX,
+  POINTS_BOSS_WEAKPOINT, ATTEMPTS_PER_LEVEL, TIME_ATTACK_MISS_PENALTY_MS, HOTSEAT_ROUNDS,
+} from '../utils/constants';
+import type { TargetType } from '../objects/Target';
+import type { LandingGrade } from '../objects/Player';
+import type { TrickDef } from '../utils/tricks';
+
 const HIGH_SCORES_KEY = 'polegunning_highscores';
 const BEST_LEVEL_KEY = 'polegunning_bestlevel';
+const BEST_SPLITS_KEY = 'polegunning_bestsplits';
+const DAILY_SCORES_KEY = 'polegunning_daily';
+const DAILY_PLAYED_KEY = 'polegunning_daily_played';
 const MAX_HIGH_SCORES = 10;
+const MAX_DAILY_DAYS = 30;
+
+/** How a level-mode attempt went: cleared, a foul (bad plant, stopped run, bar down) or a miss */
+export type AttemptMark = 'cleared' | 'foul' | 'miss';
+
+const ATTEMPT_SYMBOLS: Record<AttemptMark, string> = { cleared: 'O', foul: 'F', miss: 'X' };
+
+export type GameMode = 'level' | 'arcade' | 'timeattack' | 'practice' | 'hotseat';
+
+/** One hot-seat competitor */
+export interface HotSeatPlayer {
+  name: string;
+  score: number;    // the turn in progress
+  total: number;
+  rounds: number[]; // banked score per round played (sudden death rounds included)
+}
+
+/** What comes after a hot-seat turn */
+export type HotSeatNext = 'turn' | 'round' | 'suddendeath' | 'over';
 
 export interface ScoreEntry {
   score: number;
   level: number;
   date: string;
-  mode: 'level' | 'arcade';
+  mode: GameMode;
+  timeMs?: number; // time-ranked entries (time attack): fastest first instead of highest score
+}
+
+/** Time-ranked entries sort fastest first, score-ranked ones highest first */
+function compareEntries(a: ScoreEntry, b: ScoreEntry): number {
+  if (a.timeMs !== undefined && b.timeMs !== undefined) return a.timeMs - b.timeMs;
+  return b.score - a.score;
+}
+
+/** Run clock as m:ss.t */
+export function formatRunTime(ms: number): string {
+  const tenths = Math.floor(ms / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = Math.floor((tenths % 600) / 10);
+  return `${minutes}:${String(seconds).padStart(2, '0')}.${tenths % 10}`;
+}
+
+/** Local calendar date as YYYY-MM-DD: keys the daily challenge's seed and its score bucket */
+export function getLocalDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
 export class ScoreManager {
   private static instance: ScoreManager;
   
-  public currentScore: number = 0;
+  private soloScore: number = 0;
   public currentLevel: number = 1;
   public targetsHit: number = 0;
   public totalTargets: number = 0;
@@ -20,6 +76,25 @@ export class ScoreManager {
   public vaultHeight: number = 0;
   public combo: number = 0;
   public maxCombo: number = 0;
+  public lives: number = ARCADE_START_LIVES;
+  public barHeight: number = 0;
+  public barCleared: boolean = false;
+  public barKnocked: boolean = false;
+  public focus: number = FOCUS_MAX; // bullet-time meter, carried through the run
+  public landingGrade: LandingGrade | null = null;
+  public style: number = 1;            // multiplier on shot points, built up by tricks this attempt
+  public trickChain: number = 0;
+  public pendingTrickPoints: number = 0; // only banked by landing in the pit
+  public scoreBoost: number = 1;       // score doubler power-up, while it lasts
+  public attemptMarks: AttemptMark[] = []; // this level's attempts so far (level mode)
+  private levelStartScore: number = 0;
+  public runTimeMs: number = 0;        // time attack clock, penalties included
+  public splits: number[] = [];        // time attack: the clock as each level was cleared
+  public players: HotSeatPlayer[] = []; // hot-seat roster; empty in the single-player modes
+  public activePlayer: number = 0;
+  public hotSeatRound: number = 1;      // also the level being played
+  public contenders: number[] = [];     // who plays this round: everyone, or the tied leaders in sudden death
+  public suddenDeath: boolean = false;
 
   static getInstance(): ScoreManager {
     if (!ScoreManager.instance) {
@@ -28,6 +103,17 @@ export class ScoreManager {
     return ScoreManager.instance;
   }
 
+  /** The score being played for: the active hot-seat player's turn, or the single player's run */
+  get currentScore(): number {
+    return this.players[this.activePlayer]?.score ?? this.soloScore;
+  }
+
+  set currentScore(value: number) {
+    const player = this.players[this.activePlayer];
+    if (player) player.score = value;
+    else this.soloScore = value;
+  }
+
   reset(): void {
     this.currentScore = 0;
     this.currentLevel = 1;
@@ -37,28 +123,82 @@ export class ScoreManager {
     this.vaultHeight = 0;
     this.combo = 0;
     this.maxCombo = 0;
+    this.lives = ARCADE_START_LIVES;
+    this.focus = FOCUS_MAX;
+    this.attemptMarks = [];
+    this.levelStartScore = 0;
+    this.runTimeMs = 0;
+    this.splits = [];
+    this.resetBar();
+  }
+
+  /** First attempt at a level: clear the attempt record and remember the score to fall back to */
+  startLevelAttempts(): void {
+    this.attemptMarks = [];
+    this.levelStartScore = this.currentScore;
+  }
+
+  /** Which attempt (1-based) is under way */
+  get attemptNumber(): number {
+    return Math.min(this.attemptMarks.length + 1, ATTEMPTS_PER_LEVEL);
+  }
+
+  registerClearedAttempt(): void {
+    this.attemptMarks.push('cleared');
+  }
+
+  /**
+   * A foul or a miss uses up an attempt. If any are left, the points from this
+   * one are wiped so every try starts from the same score. Returns attempts left.
+   */
+  registerFailedAttempt(mark: 'foul' | 'miss'): number {
+    this.attemptMarks.push(mark);
+    const left = ATTEMPTS_PER_LEVEL - this.attemptMarks.length;
+    if (left > 0) this.currentScore = this.levelStartScore;
+    return left;
+  }
+
+  /** Attempt record in results-sheet style, e.g. "X F O" */
+  getAttemptSheet(): string {
+    return this.attemptMarks.map(mark => ATTEMPT_SYMBOLS[mark]).join(' ');
+  }
+
+  resetBar(): void {
+    this.barHeight = 0;
+    this.barCleared = false;
+    this.barKnocked = false;
   }
 
   addPoints(points: number): void {
     this.currentScore += points;
   }
 
-  registerHit(isBullseye: boolean): number {
+  /** Score a destroyed target; `ring` indexes TARGET_RINGS (0 = bullseye) */
+  registerHit(ring: number, isMoving: boolean = false, type: TargetType = 'normal'): number {
+    const isBullseye = ring === 0;
     this.targetsHit++;
     this.combo++;
     if (this.combo > this.maxCombo) {
       this.maxCombo = this.combo;
     }
 
-    let points = isBullseye ? 100 : 50;
+    let points = TARGET_RINGS[ring].points;
+    if (isMoving) points += POINTS_MOVING_BONUS;
+    if (type === 'armored') points += POINTS_ARMORED_BONUS;
+    if (type === 'golden') points *= GOLDEN_POINTS_MULT;
     
     // Combo multiplier
     if (this.combo >= 3) {
       points = Math.floor(points * (1 + (this.combo - 2) * 0.25));
     }
+    points = Math.floor(points * this.style * this.scoreBoost);
 
     this.currentScore += points;
     if (isBullseye) this.bullseyes++;
+
+    // Bullseyes and combos earn back focus
+    if (isBullseye) this.refillFocus(FOCUS_REFILL_BULLSEYE);
+    if (this.combo >= 2) this.refillFocus(FOCUS_REFILL_COMBO);
     
     return points;
   }
@@ -67,6 +207,101 @@ export class ScoreManager {
     this.combo = 0;
   }
 
+  /** Score the touchdown. Returns the points gained (negative for a penalty). A crash scores nothing; it fails the attempt. */
+  registerLanding(grade: LandingGrade): number {
+    this.landingGrade = grade;
+    if (grade === 'clean') {
+      this.currentScore += POINTS_LANDING_CLEAN;
+      return POINTS_LANDING_CLEAN;
+    }
+    if (grade === 'rough') {
+      this.currentScore += POINTS_LANDING_ROUGH;
+      return POINTS_LANDING_ROUGH;
+    }
+    if (grade === 'faceplant') {
+      const penalty = Math.min(PENALTY_FACEPLANT, this.currentScore);
+      this.currentScore -= penalty;
+      return -penalty;
+    }
+    return 0;
+  }
+
+  resetStyle(): void {
+    this.style = 1;
+    this.trickChain = 0;
+    this.pendingTrickPoints = 0;
+  }
+
+  /**
+   * A trick finished in the air. Chained tricks are worth more; the points wait
+   * for a good landing but the style boost applies to shots straight away.
+   * Returns the points added to the pending total.
+   */
+  registerTrick(trick: TrickDef, chained: boolean): number {
+    this.trickChain = chained ? this.trickChain + 1 : 1;
+    const points = trick.points * this.trickChain;
+    this.pendingTrickPoints += points;
+    this.style = Math.min(this.style + trick.style, STYLE_MULT_MAX);
+    return points;
+  }
+
+  /** Landed it: pending trick points go on the score. Returns the points banked. */
+  bankTricks(): number {
+    const banked = this.pendingTrickPoints;
+    this.currentScore += banked;
+    this.pendingTrickPoints = 0;
+    this.trickChain = 0;
+    return banked;
+  }
+
+  /** Bad landing: pending trick points and the style boost are lost. Returns the points lost. */
+  bailTricks(): number {
+    const lost = this.pendingTrickPoints;
+    this.resetStyle();
+    return lost;
+  }
+
+  /** Target taken out by a ricochet. Returns the bonus. */
+  registerTrickShot(): number {
+    this.currentScore += POINTS_TRICK_SHOT;
+    return POINTS_TRICK_SHOT;
+  }
+
+  /** Broke a boss weak point: counts toward the combo like a target, with style and boost applied. Returns the points. */
+  registerBossWeakPoint(): number {
+    this.combo++;
+    if (this.combo > this.maxCombo) {
+      this.maxCombo = this.combo;
+    }
+    const points = Math.floor(POINTS_BOSS_WEAKPOINT * this.style * this.scoreBoost);
+    this.currentScore += points;
+    return points;
+  }
+
+  /** Boss brought down. Returns the bonus. */
+  registerBossDefeat(bonus: number): number {
+    this.currentScore += bonus;
+    return bonus;
+  }
+
+  /** Shot a no-shoot decoy: lose points and the combo. Returns the penalty. */
+  registerDecoyHit(): number {
+    this.combo = 0;
+    const penalty = Math.min(PENALTY_DECOY, this.currentScore);
+    this.currentScore -= penalty;
+    return penalty;
+  }
+
+  refillFocus(seconds: number): void {
+    this.focus = Math.min(this.focus + seconds, FOCUS_MAX);
+  }
+
+  /** Burn focus while slow motion is active. Returns false once the meter is empty. */
+  spendFocus(seconds: number): boolean {
+    this.focus = Math.max(this.focus - seconds, 0);
+    return this.focus > 0;
+  }
+
   addVaultBonus(height: number): number {
     this.vaultHeight = height;
     const bonus = Math.floor(height * 2);
@@ -74,12 +309,124 @@ export class ScoreManager {
     return bonus;
   }
 
-  getHighScores(mode: 'level' | 'arcade'): ScoreEntry[] {
+  /** Clean clearance: points scale with bar height. On a course, one knocked bar spoils the record. */
+  registerBarClear(heightMeters: number): number {
+    this.barHeight = heightMeters;
+    this.barCleared = !this.barKnocked;
+    const bonus = Math.round(heightMeters * POINTS_BAR_PER_METER);
+    this.currentScore += bonus;
+    return bonus;
+  }
+
+  /** Bar knocked off: a foul, with a point penalty. Returns the points lost. */
+  registerBarKnock(heightMeters: number): number {
+    this.barHeight = heightMeters;
+    this.barKnocked = true;
+    this.barCleared = false;
+    const penalty = Math.min(PENALTY_BAR_KNOCK, this.currentScore);
+    this.currentScore -= penalty;
+    return penalty;
+  }
+
+  addAmmoBonus(roundsLeft: number): number {
+    const bonus = roundsLeft * POINTS_AMMO_LEFT;
+    this.currentScore += bonus;
+    return bonus;
+  }
+
+  addWaveBonus(wave: number): number {
+    const bonus = wave * POINTS_WAVE_CLEAR;
+    this.currentScore += bonus;
+    return bonus;
+  }
+
+  /** Spend one arcade life. Returns the number of lives left. */
+  loseLife(): number {
+    this.lives = Math.max(0, this.lives - 1);
+    return this.lives;
+  }
+
+  /** Time attack: a target left standing costs seconds. Returns the penalty added (ms). */
+  addMissPenalty(missed: number): number {
+    const penalty = Math.max(0, missed) * TIME_ATTACK_MISS_PENALTY_MS;
+    this.runTimeMs += penalty;
+    return penalty;
+  }
+
+  /** Time attack: stop the split for the level just cleared */
+  recordSplit(): number {
+    this.splits.push(this.runTimeMs);
+    return this.runTimeMs;
+  }
+
+  startHotSeat(names: string[]): void {
+    this.players = names.map(name => ({ name, score: 0, total: 0, rounds: [] }));
+    this.contenders = this.players.map((_, i) => i);
+    this.activePlayer = 0;
+    this.hotSeatRound = 1;
+    this.suddenDeath = false;
+  }
+
+  endHotSeat(): void {
+    this.players = [];
+    this.contenders = [];
+    this.activePlayer = 0;
+  }
+
+  /** Bank the active player's turn into their total */
+  bankTurn(): void {
+    const player = this.players[this.activePlayer];
+    if (!player) return;
+    player.rounds.push(player.score);
+    player.total += player.score;
+  }
+
+  /**
+   * Hand over to the next contender. After the last turn of a round, either a new round
+   * starts, the players tied for the lead go to sudden death, or the game is over.
+   */
+  advanceTurn(): HotSeatNext {
+    const seat = this.contenders.indexOf(this.activePlayer);
+    if (seat < this.contenders.length - 1) {
+      this.activePlayer = this.contenders[seat + 1];
+      return 'turn';
+    }
+
+    if (this.hotSeatRound < HOTSEAT_ROUNDS) {
+      this.contenders = this.players.map((_, i) => i);
+    } else {
+      const best = Math.max(...this.players.map(p => p.total));
+      const leaders = this.players.map((_, i) => i).filter(i => this.players[i].total === best);
+      if (leaders.length < 2) return 'over';
+      this.contenders = leaders;
+      this.suddenDeath = true;
+    }
+    this.hotSeatRound++;
+    this.activePlayer = this.contenders[0];
+    return this.suddenDeath ? 'suddendeath' : 'round';
+  }
+
+  /** Hot-seat players, leader first */
+  getStandings(): HotSeatPlayer[] {
+    return [...this.players].sort((a, b) => b.total - a.total);
+  }
+
+  /** Splits of the fastest complete time attack run */
+  getBestSplits(): number[] {
+    try {
+      const data = localStorage.getItem(BEST_SPLITS_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  getHighScores(mode: GameMode): ScoreEntry[] {
     try {
       const data = localStorage.getItem(HIGH_SCORES_KEY);
       if (!data) return [];
       const all: ScoreEntry[] = JSON.parse(data);
-      return all.filter(e => e.mode === mode).sort((a, b) => b.score - a.score);
+      return all.filter(e => e.mode === mode).sort(compareEntries);
     } catch {
       return [];
     }
@@ -107,7 +454,7 @@ export class ScoreManager {
     }
   }
 
-  saveHighScore(mode: 'level' | 'arcade'): boolean {
+  saveHighScore(mode: GameMode): boolean {
     try {
       const existing = localStorage.getItem(HIGH_SCORES_KEY);
       const all: ScoreEntry[] = existing ? JSON.parse(existing) : [];
@@ -118,20 +465,79 @@ export class ScoreManager {
         date: new Date().toISOString().split('T')[0],
         mode,
       };
+      if (mode === 'timeattack') entry.timeMs = this.runTimeMs;
 
       all.push(entry);
-      all.sort((a, b) => b.score - a.score);
       
-      // Keep only top scores
-      const trimmed = all.slice(0, MAX_HIGH_SCORES * 2);
+      // Keep only the top entries of each mode (each ranked its own way)
+      const modes = [...new Set(all.map(e => e.mode))];
+      const trimmed = modes.flatMap(m => all.filter(e => e.mode === m).sort(compareEntries).slice(0, MAX_HIGH_SCORES));
       localStorage.setItem(HIGH_SCORES_KEY, JSON.stringify(trimmed));
 
-      // Check if this is a new high score for this mode
-      const modeScores = trimmed.filter(e => e.mode === mode);
-      return modeScores[0]?.score === this.currentScore;
+      // Check if this is a new best for this mode
+      const best = trimmed.filter(e => e.mode === mode)[0];
+      if (mode === 'timeattack') {
+        const isRecord = best?.timeMs === this.runTimeMs;
+        if (isRecord) localStorage.setItem(BEST_SPLITS_KEY, JSON.stringify(this.splits));
+        return isRecord;
+      }
+      return best?.score === this.currentScore;
     } catch {
       return false;
     }
   }
-}
 
+  /** Daily challenge: has the day's one scored attempt been used? */
+  hasPlayedDaily(dateKey: string): boolean {
+    try {
+      return localStorage.getItem(DAILY_PLAYED_KEY) === dateKey;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Use up the day's attempt as the run starts, so quitting out doesn't earn a second go */
+  startDaily(dateKey: string): void {
+    try {
+      localStorage.setItem(DAILY_PLAYED_KEY, dateKey);
+    } catch {
+      // Storage unavailable: the attempt just isn't remembered
+    }
+  }
+
+  /** Daily scores bucketed by date, best first within each day */
+  getDailyScores(): Record<string, ScoreEntry[]> {
+    try {
+      const data = localStorage.getItem(DAILY_SCORES_KEY);
+      return data ? JSON.parse(data) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /** Bank the run in its day's bucket. Returns true if it tops that day. */
+  saveDailyScore(dateKey: string): boolean {
+    try {
+      const buckets = this.getDailyScores();
+      const day = buckets[dateKey] ?? [];
+      day.push({
+        score: this.currentScore,
+        level: this.currentLevel,
+        date: dateKey,
+        mode: 'arcade',
+      });
+      day.sort((a, b) => b.score - a.score);
+      buckets[dateKey] = day.slice(0, MAX_HIGH_SCORES);
+
+      // Only keep the last month of days
+      const kept: Record<string, ScoreEntry[]> = {};
+      for (const key of Object.keys(buckets).sort().reverse().slice(0, MAX_DAILY_DAYS)) {
+        kept[key] = buckets[key];
+      }
+      localStorage.setItem(DAILY_SCORES_KEY, JSON.stringify(kept));
+      return kept[dateKey]?.[0]?.score === this.currentScore;
+    } catch {
+      return false;
+    }
+  }
+}
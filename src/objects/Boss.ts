@@ -0,0 +1,194 @@
+import Phaser from 'phaser';
+import { BossDef, BossPhase, bossMaxHealth } from '../utils/bosses';
+import { BOSS_RELOCATE_MS } from '../utils/constants';
+
+/** What a hit on a weak point did */
+export type BossHitResult = 'damaged' | 'broken' | 'phase' | 'defeated';
+
+export interface BossWeakPoint {
+  sprite: Phaser.GameObjects.Sprite;
+  phase: number;
+  hp: number;
+}
+
+const WEAK_POINT_PULSE_MS = 300;
+const CHARGE_WARNING_MS = 300;
+
+/**
+ * A large multi-part target: an armoured hull that stops bullets, with weak points
+ * that open up a phase at a time. Lives for the whole stage, following the athlete
+ * from station to station until it's brought down.
+ */
+export class Boss extends Phaser.GameObjects.Container {
+  public def: BossDef;
+  public phase: number = 0;
+  public isDefeated: boolean = false;
+  private hull: Phaser.GameObjects.Sprite;
+  private weakPoints: BossWeakPoint[] = [];
+  private anchorX: number;
+  private age: number = 0;
+  private fireTimer: number = 0;
+  private relocating: boolean = false;
+
+  constructor(scene: Phaser.Scene, anchorX: number, def: BossDef) {
+    super(scene, anchorX, def.homeY);
+    scene.add.existing(this);
+    this.setDepth(6);
+
+    this.def = def;
+    this.anchorX = anchorX;
+
+    this.hull = scene.add.sprite(0, 0, def.texture, 0);
+    this.add(this.hull);
+
+    // Every weak point is built up front; later phases stay hidden behind armour
+    def.phases.forEach((phase, i) => {
+      for (const point of phase.weakPoints) {
+        const sprite = scene.add.sprite(point.x, point.y, 'boss_weakpoint', 0);
+        sprite.setVisible(i === 0);
+        this.add(sprite);
+        this.weakPoints.push({ sprite, phase: i, hp: def.weakPointHp });
+      }
+    });
+    this.resetFireTimer();
+  }
+
+  get currentPhase(): BossPhase {
+    return this.def.phases[this.phase];
+  }
+
+  get health(): number {
+    return this.weakPoints.reduce((sum, point) => sum + point.hp, 0);
+  }
+
+  get maxHealth(): number {
+    return bossMaxHealth(this.def);
+  }
+
+  /** Weak points that can be shot right now, in world space */
+  get exposedWeakPoints(): BossWeakPoint[] {
+    if (this.isDefeated) return [];
+    return this.weakPoints.filter(point => point.phase === this.phase && point.hp > 0);
+  }
+
+  weakPointX(point: BossWeakPoint): number {
+    return this.x + point.sprite.x;
+  }
+
+  weakPointY(point: BossWeakPoint): number {
+    return this.y + point.sprite.y;
+  }
+
+  get muzzleX(): number {
+    return this.x + this.def.muzzle.x;
+  }
+
+  get muzzleY(): number {
+    return this.y + this.def.muzzle.y;
+  }
+
+  /** Is the point inside the armoured hull? */
+  hullContains(x: number, y: number): boolean {
+    if (this.isDefeated) return false;
+    return Math.abs(x - this.x) <= this.def.width / 2 && Math.abs(y - this.y) <= this.def.height / 2;
+  }
+
+  /**
+   * Move for one frame. Returns true when the boss wants to fire this frame
+   * (only while `canFire`, i.e. the athlete is in the air and in range).
+   */
+  updateBoss(delta: number, canFire: boolean): boolean {
+    if (this.isDefeated) return false;
+    this.age += delta;
+
+    for (const point of this.exposedWeakPoints) {
+      point.sprite.setFrame(Math.floor(this.age / WEAK_POINT_PULSE_MS) % 2);
+    }
+    if (this.relocating) return false;
+
+    const { swayX, swayY, periodMs, fireEveryMs } = this.currentPhase;
+    const swing = (this.age / periodMs) * Math.PI * 2;
+    this.x = this.anchorX + Math.sin(swing) * swayX;
+    // Flyers trace a figure-eight; walkers hop with each stride
+    this.y = this.def.grounded
+      ? this.def.homeY - Math.abs(Math.sin(swing * 2)) * swayY
+      : this.def.homeY + Math.sin(swing * 2) * swayY;
+
+    if (fireEveryMs <= 0 || !canFire) return false;
+    this.fireTimer -= delta;
+    // Muzzle glows just before a shot
+    this.hull.setTint(this.fireTimer < CHARGE_WARNING_MS ? 0xffaaaa : 0xffffff);
+    if (this.fireTimer <= 0) {
+      this.resetFireTimer();
+      return true;
+    }
+    return false;
+  }
+
+  /** Take a hit on an exposed weak point; blasts break it outright */
+  hit(point: BossWeakPoint, blast: boolean = false): BossHitResult {
+    point.hp = blast ? 0 : point.hp - 1;
+    if (point.hp > 0) {
+      point.sprite.setTint(0xff8888);
+      this.scene.time.delayedCall(80, () => point.sprite.clearTint());
+      return 'damaged';
+    }
+
+    point.sprite.setFrame(2);
+    if (this.exposedWeakPoints.length > 0) return 'broken';
+
+    if (this.phase >= this.def.phases.length - 1) {
+      this.defeat();
+      return 'defeated';
+    }
+
+    // Armour falls away from the next set of weak points, and it gets angrier
+    this.phase++;
+    this.hull.setFrame(this.phase);
+    this.resetFireTimer();
+    for (const next of this.exposedWeakPoints) {
+      next.sprite.setVisible(true).setScale(0);
+      this.scene.tweens.add({ targets: next.sprite, scale: 1, duration: 300, ease: 'Back.easeOut' });
+    }
+    return 'phase';
+  }
+
+  /** Follow the athlete to the next station */
+  relocate(anchorX: number): void {
+    if (this.isDefeated) return;
+    this.anchorX = anchorX;
+    this.relocating = true;
+    this.scene.tweens.add({
+      targets: this,
+      x: anchorX,
+      y: this.def.homeY,
+      duration: BOSS_RELOCATE_MS,
+      ease: 'Sine.easeInOut',
+      onComplete: () => {
+        this.relocating = false;
+        this.age = 0;
+      },
+    });
+  }
+
+  private defeat(): void {
+    this.isDefeated = true;
+    this.hull.setFrame(this.def.phases.length).clearTint();
+    this.scene.tweens.killTweensOf(this);
+    // Flyers go down nose first; walkers topple where they stand
+    this.scene.tweens.add({
+      targets: this,
+      y: this.def.grounded ? this.y + 20 : this.def.homeY + 260,
+      angle: this.def.grounded ? -20 : 25,
+      alpha: 0,
+      duration: 1600,
+      delay: 400,
+      ease: 'Quad.easeIn',
+      onComplete: () => this.setVisible(false),
+    });
+  }
+
+  private resetFireTimer(): void {
+    this.fireTimer = this.currentPhase.fireEveryMs;
+  }
+}
@@ -0,0 +1,97 @@
+import Phaser from 'phaser';
+import { GROUND_Y, PIXELS_PER_METER } from '../utils/constants';
+
+export type CrossbarState = 'up' | 'cleared' | 'knocked';
+
+const BAR_WIDTH = 48;
+const BAR_THICKNESS = 5;
+
+/** High-jump style crossbar: fixed uprights plus a bar that can be knocked off */
+export class Crossbar extends Phaser.GameObjects.Sprite {
+  public state: CrossbarState = 'up';
+  public heightMeters: number = 0;
+  private bar: Phaser.Physics.Arcade.Sprite;
+  private barY: number = 0;
+
+  constructor(scene: Phaser.Scene, x: number, heightMeters: number) {
+    super(scene, x, GROUND_Y, 'crossbar');
+    scene.add.existing(this);
+    this.setOrigin(0.5, 1);
+
+    this.bar = scene.physics.add.sprite(x, 0, 'crossbar_bar');
+    this.bar.setOrigin(0.5, 0.5);
+    const body = this.bar.body as Phaser.Physics.Arcade.Body;
+    body.setAllowGravity(false);
+
+    this.setBarHeight(heightMeters);
+  }
+
+  setDepth(value: number): this {
+    super.setDepth(value);
+    this.bar?.setDepth(value + 0.1);
+    return this;
+  }
+
+  setBarHeight(heightMeters: number): void {
+    this.heightMeters = heightMeters;
+    this.barY = GROUND_Y - heightMeters * PIXELS_PER_METER;
+    this.bar.setPosition(this.x, this.barY);
+  }
+
+  /** Y of the top of the bar in world space */
+  getBarY(): number {
+    return this.barY;
+  }
+
+  /**
+   * Test the athlete's body against the bar while it is still up.
+   * Returns the new state if this check resolved the jump, otherwise null.
+   */
+  checkAthlete(bodyRect: Phaser.Geom.Rectangle): CrossbarState | null {
+    if (this.state !== 'up') return null;
+
+    const barRect = new Phaser.Geom.Rectangle(
+      this.x - BAR_WIDTH / 2, this.barY - BAR_THICKNESS / 2, BAR_WIDTH, BAR_THICKNESS
+    );
+    if (Phaser.Geom.Intersects.RectangleToRectangle(bodyRect, barRect)) {
+      this.state = 'knocked';
+      return this.state;
+    }
+
+    // Whole body past the far upright with the bar untouched
+    if (bodyRect.left > barRect.right) {
+      this.state = 'cleared';
+      return this.state;
+    }
+    return null;
+  }
+
+  /** Knock the bar off its pegs, carrying some of the athlete's momentum */
+  knock(pushX: number, pushY: number): void {
+    const body = this.bar.body as Phaser.Physics.Arcade.Body;
+    body.setAllowGravity(true);
+    body.setVelocity(pushX * 0.5 + 40, Math.min(pushY * 0.3, 0) - 60);
+    body.setAngularVelocity(Phaser.Math.Between(-360, 360));
+  }
+
+  /** Bounce the fallen bar on the runway until it settles */
+  updateBar(): void {
+    if (this.state !== 'knocked') return;
+    const body = this.bar.body as Phaser.Physics.Arcade.Body;
+    if (!body.allowGravity) return;
+
+    if (this.bar.y >= GROUND_Y - BAR_THICKNESS / 2 && body.velocity.y > 0) {
+      this.bar.y = GROUND_Y - BAR_THICKNESS / 2;
+      if (body.velocity.y < 60) {
+        // Settled
+        body.setVelocity(0, 0);
+        body.setAngularVelocity(0);
+        body.setAllowGravity(false);
+        this.bar.setRotation(0);
+      } else {
+        body.setVelocity(body.velocity.x * 0.6, -body.velocity.y * 0.35);
+        body.setAngularVelocity(body.angularVelocity * 0.5);
+      }
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import Phaser from 'phaser';
+import { BULLET_SPEED, GHOST_ALPHA, GHOST_TRACER_MS } from '../utils/constants';
+import { GhostRun, GHOST_FRAME_FIELDS, GHOST_SHOT_FIELDS, GHOST_HIT_FIELDS } from '../managers/GhostManager';
+
+const GHOST_TINT = 0x88ccff;
+
+interface GhostTracer {
+  streak: Phaser.GameObjects.Rectangle;
+  vx: number;
+  vy: number;
+  life: number;
+}
+
+/**
+ * Replays a recorded best run: a see-through athlete following the stored samples, with
+ * its shots as short-lived tracers and a ring wherever it took a target down. Purely
+ * visual; it never touches targets or scoring.
+ */
+export class Ghost extends Phaser.GameObjects.Sprite {
+  private run: GhostRun;
+  private sampleIndex: number = 0;
+  private shotIndex: number = 0;
+  private hitIndex: number = 0;
+  private tracers: GhostTracer[] = [];
+  private finished: boolean = false;
+
+  constructor(scene: Phaser.Scene, run: GhostRun) {
+    super(scene, run.frames[1], run.frames[2], 'player', run.frames[3]);
+    scene.add.existing(this);
+    this.setOrigin(0.5, 1);
+    this.setDepth(9); // just behind the athlete
+    this.setAlpha(GHOST_ALPHA);
+    this.setTint(GHOST_TINT);
+    this.run = run;
+  }
+
+  /** Move to where the recorded run was at `clock` ms into the attempt */
+  updateGhost(clock: number, delta: number): void {
+    this.followSamples(clock);
+    this.replayShots(clock);
+    this.replayHits(clock);
+    this.updateTracers(delta);
+  }
+
+  private followSamples(clock: number): void {
+    if (this.finished) return;
+    const frames = this.run.frames;
+    const count = frames.length / GHOST_FRAME_FIELDS;
+    while (this.sampleIndex < count - 1 && frames[(this.sampleIndex + 1) * GHOST_FRAME_FIELDS] <= clock) {
+      this.sampleIndex++;
+    }
+
+    const a = this.sampleIndex * GHOST_FRAME_FIELDS;
+    if (this.sampleIndex >= count - 1) {
+      // The recording is over: hold the last pose and fade away
+      this.setPosition(frames[a + 1], frames[a + 2]);
+      this.finished = true;
+      this.scene.tweens.add({ targets: this, alpha: 0, duration: 600 });
+      return;
+    }
+
+    // Samples are sparse, so glide between them
+    const b = a + GHOST_FRAME_FIELDS;
+    const t = Phaser.Math.Clamp((clock - frames[a]) / Math.max(frames[b] - frames[a], 1), 0, 1);
+    this.setPosition(
+      Phaser.Math.Linear(frames[a + 1], frames[b + 1], t),
+      Phaser.Math.Linear(frames[a + 2], frames[b + 2], t),
+    );
+    this.setFrame(frames[a + 3]);
+    this.setAngle(frames[a + 4]);
+  }
+
+  private replayShots(clock: number): void {
+    const shots = this.run.shots;
+    while (this.shotIndex * GHOST_SHOT_FIELDS < shots.length && shots[this.shotIndex * GHOST_SHOT_FIELDS] <= clock) {
+      const i = this.shotIndex * GHOST_SHOT_FIELDS;
+      const angle = Phaser.Math.DegToRad(shots[i + 3]);
+      const streak = this.scene.add.rectangle(shots[i + 1], shots[i + 2], 8, 2, GHOST_TINT, GHOST_ALPHA + 0.2);
+      streak.setRotation(angle).setDepth(9);
+      this.tracers.push({ streak, vx: Math.cos(angle) * BULLET_SPEED, vy: Math.sin(angle) * BULLET_SPEED, life: GHOST_TRACER_MS });
+      this.shotIndex++;
+    }
+  }
+
+  private replayHits(clock: number): void {
+    const hits = this.run.hits;
+    while (this.hitIndex * GHOST_HIT_FIELDS < hits.length && hits[this.hitIndex * GHOST_HIT_FIELDS] <= clock) {
+      const i = this.hitIndex * GHOST_HIT_FIELDS;
+      const ring = this.scene.add.circle(hits[i + 1], hits[i + 2], 10);
+      ring.setStrokeStyle(2, GHOST_TINT, GHOST_ALPHA + 0.3).setDepth(9);
+      this.scene.tweens.add({
+        targets: ring,
+        scale: 2.5,
+        alpha: 0,
+        duration: 450,
+        ease: 'Cubic.easeOut',
+        onComplete: () => ring.destroy(),
+      });
+      this.hitIndex++;
+    }
+  }
+
+  private updateTracers(delta: number): void {
+    this.tracers = this.tracers.filter(tracer => {
+      tracer.life -= delta;
+      if (tracer.life <= 0) {
+        tracer.streak.destroy();
+        return false;
+      }
+      tracer.streak.x += tracer.vx * delta / 1000;
+      tracer.streak.y += tracer.vy * delta / 1000;
+      tracer.streak.setAlpha((GHOST_ALPHA + 0.2) * tracer.life / GHOST_TRACER_MS);
+      return true;
+    });
+  }
+
+  destroy(fromScene?: boolean): void {
+    this.tracers.forEach(tracer => tracer.streak.destroy());
+    this.tracers = [];
+    super.destroy(fromScene);
+  }
+}
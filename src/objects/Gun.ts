@@ -1,7 +1,10 @@
 import Phaser from 'phaser';
-import { BULLET_SPEED } from '../utils/constants';
+import { WeaponDef, WEAPONS } from '../utils/weapons';
+import { RICOCHET_SPEED_KEEP, MAX_RICOCHETS, PENETRATION_SPEED_KEEP } from '../utils/constants';
 
 export class Gun extends Phaser.GameObjects.Sprite {
+  public weapon: WeaponDef = WEAPONS.pistol;
+
   constructor(scene: Phaser.Scene, x: number, y: number) {
     super(scene, x, y, 'gun');
     scene.add.existing(this);
@@ -11,6 +14,12 @@ export class Gun extends Phaser.GameObjects.Sprite {
     this.setDepth(5);
   }
 
+  setWeapon(weapon: WeaponDef): void {
+    this.weapon = weapon;
+    this.setTexture(weapon.gunTexture);
+    this.setDisplaySize(weapon.gunSize.w, weapon.gunSize.h);
+  }
+
   aimAt(targetX: number, targetY: number): number {
     const angle = Phaser.Math.Angle.Between(this.x, this.y, targetX, targetY);
     this.setRotation(angle);
@@ -34,6 +43,16 @@ export class Gun extends Phaser.GameObjects.Sprite {
 
 export class Bullet extends Phaser.Physics.Arcade.Sprite {
   public isActive: boolean = false;
+  public weapon: WeaponDef = WEAPONS.pistol;
+  public shotId: number = 0;       // projectiles from the same trigger pull share an id
+  public pierceLeft: number = 0;
+  public penetrationLeft: number = 0;
+  public hitTargets: Set<Phaser.GameObjects.GameObject> = new Set(); // so a piercing round can't hit the same target twice
+  public ricochets: number = 0;
+  // Where the bullet was at the last collision check; hits are swept from here
+  public prevX: number = 0;
+  public prevY: number = 0;
+  private age: number = 0;
 
   constructor(scene: Phaser.Scene, x: number, y: number) {
     super(scene, x, y, 'bullet');
@@ -49,18 +68,100 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
     body.setSize(6, 3);
   }
 
-  fire(fromX: number, fromY: number, angle: number): void {
+  fire(fromX: number, fromY: number, angle: number, weapon: WeaponDef = WEAPONS.pistol, shotId: number = 0): void {
+    this.weapon = weapon;
+    this.shotId = shotId;
+    this.pierceLeft = weapon.pierce;
+    this.penetrationLeft = weapon.penetration;
+    this.hitTargets.clear();
+    this.ricochets = 0;
+    this.age = 0;
+
+    this.setTexture(weapon.bulletTexture);
+    this.setDisplaySize(weapon.bulletSize.w, weapon.bulletSize.h);
     this.setPosition(fromX, fromY);
+    this.prevX = fromX;
+    this.prevY = fromY;
     this.setActive(true);
     this.setVisible(true);
     this.isActive = true;
     this.setRotation(angle);
 
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    body.setSize(this.width, this.height);
+    body.setVelocity(
+      Math.cos(angle) * weapon.speed,
+      Math.sin(angle) * weapon.speed
+    );
+  }
+
+  /**
+   * Closest approach of the path travelled since the last check (prev -> current) to a point.
+   * `t` is how far along that path the approach happens (0..1), so crossings can be ordered.
+   */
+  closestApproach(px: number, py: number): { dist: number; t: number; x: number; y: number } {
+    const dx = this.x - this.prevX;
+    const dy = this.y - this.prevY;
+    const lenSq = dx * dx + dy * dy;
+    const t = lenSq > 0
+      ? Phaser.Math.Clamp(((px - this.prevX) * dx + (py - this.prevY) * dy) / lenSq, 0, 1)
+      : 0;
+    const x = this.prevX + dx * t;
+    const y = this.prevY + dy * t;
+    return { dist: Phaser.Math.Distance.Between(x, y, px, py), t, x, y };
+  }
+
+  /** Start the next sweep from the current position */
+  endSweep(): void {
+    this.prevX = this.x;
+    this.prevY = this.y;
+  }
+
+  /**
+   * Ballistics: drop under the weapon's gravity and drift in the wind (px/s²),
+   * keeping the sprite pointed along its path.
+   */
+  applyForces(windAccel: number, delta: number): void {
     const body = this.body as Phaser.Physics.Arcade.Body;
     body.setVelocity(
-      Math.cos(angle) * BULLET_SPEED,
-      Math.sin(angle) * BULLET_SPEED
+      body.velocity.x + windAccel * delta / 1000,
+      body.velocity.y + this.weapon.gravity * delta / 1000
     );
+    this.setRotation(Math.atan2(body.velocity.y, body.velocity.x));
+  }
+
+  get canRicochet(): boolean {
+    return this.weapon.ricochet && this.ricochets < MAX_RICOCHETS;
+  }
+
+  /** Bounce off a surface at the impact point; `axis` is the velocity component the surface reverses */
+  ricochet(axis: 'x' | 'y', impactX: number, impactY: number): void {
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    const vx = body.velocity.x * RICOCHET_SPEED_KEEP * (axis === 'x' ? -1 : 1);
+    const vy = body.velocity.y * RICOCHET_SPEED_KEEP * (axis === 'y' ? -1 : 1);
+    body.setVelocity(vx, vy);
+
+    // Restart from just off the surface
+    const x = impactX + (axis === 'x' ? Math.sign(vx) : 0);
+    const y = impactY + (axis === 'y' ? Math.sign(vy) : 0);
+    this.setPosition(x, y);
+    this.prevX = x;
+    this.prevY = y;
+    this.setRotation(Math.atan2(vy, vx));
+    this.ricochets++;
+  }
+
+  /** Punch through a target: carry on along the same line, slower */
+  penetrate(): void {
+    this.penetrationLeft--;
+    const body = this.body as Phaser.Physics.Arcade.Body;
+    body.setVelocity(body.velocity.x * PENETRATION_SPEED_KEEP, body.velocity.y * PENETRATION_SPEED_KEEP);
+  }
+
+  /** Age the projectile. Returns true once it has outlived its weapon's range. */
+  updateLifespan(delta: number): boolean {
+    this.age += delta;
+    return this.weapon.lifespanMs !== undefined && this.age >= this.weapon.lifespanMs;
   }
 
   deactivate(): void {
@@ -71,4 +172,3 @@ export class Bullet extends Phaser.Physics.Arcade.Sprite {
     body.setVelocity(0, 0);
   }
 }
-
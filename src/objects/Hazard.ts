@@ -0,0 +1,179 @@
+import Phaser from 'phaser';
+import {
+  BIRD_SPEED, DRONE_FIRE_INTERVAL, DRONE_SHOT_SPEED, BALLOON_RISE_SPEED, BOSS_SHOT_SPEED,
+} from '../utils/constants';
+
+/**
+ * Airborne threats that turn up during the shooting window:
+ * birds cross the flight path, drones hover ahead and fire slow shots,
+ * balloons drift up between the athlete and the targets and soak up bullets.
+ */
+export type HazardType = 'bird' | 'drone' | 'balloon';
+
+/** What ended an attempt early */
+export type DeathCause = 'spikes' | 'bird' | 'drone' | 'boss';
+
+interface HazardStats {
+  texture: string;
+  hp: number;
+  radius: number;   // hit radius (px) for bullets and the athlete
+  points: number;   // for shooting it down
+  harmful: boolean; // hurts the athlete on contact
+}
+
+export const HAZARD_STATS: Record<HazardType, HazardStats> = {
+  bird:    { texture: 'hazard_bird',    hp: 1, radius: 10, points: 40, harmful: true },
+  drone:   { texture: 'hazard_drone',   hp: 2, radius: 12, points: 80, harmful: true },
+  balloon: { texture: 'hazard_balloon', hp: 1, radius: 9,  points: 10, harmful: false },
+};
+
+// Drones hold station this far ahead of the camera's left edge
+const DRONE_SCREEN_X = 560;
+const DRONE_HOVER_RANGE = 18;
+const BIRD_FLAP_MS = 120;
+
+export class Hazard extends Phaser.GameObjects.Sprite {
+  public type: HazardType;
+  public hp: number;
+  public isDestroyed: boolean = false;
+  private age: number = 0;
+  private baseY: number;
+  private fireTimer: number;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, type: HazardType) {
+    super(scene, x, y, HAZARD_STATS[type].texture, 0);
+    scene.add.existing(this);
+    this.setDepth(8);
+
+    this.type = type;
+    this.hp = HAZARD_STATS[type].hp;
+    this.baseY = y;
+    // First shot comes a little after arriving, so the athlete sees the drone first
+    this.fireTimer = DRONE_FIRE_INTERVAL * 0.75;
+  }
+
+  get radius(): number {
+    return HAZARD_STATS[this.type].radius;
+  }
+
+  get isHarmful(): boolean {
+    return !this.isDestroyed && HAZARD_STATS[this.type].harmful;
+  }
+
+  /**
+   * Move for one frame. `cameraX` is the left edge of the view (drones keep pace with it).
+   * Returns true when a drone wants to fire this frame.
+   */
+  updateHazard(delta: number, cameraX: number): boolean {
+    if (this.isDestroyed) return false;
+    this.age += delta;
+    const dt = delta / 1000;
+
+    switch (this.type) {
+      case 'bird':
+        // Flaps straight across toward the athlete, bobbing with each wingbeat
+        this.x -= BIRD_SPEED * dt;
+        this.y = this.baseY + Math.sin(this.age / 180) * 6;
+        this.setFrame(Math.floor(this.age / BIRD_FLAP_MS) % 2);
+        return false;
+
+      case 'drone': {
+        // Ease into its hover spot, then hang there and fire
+        const targetX = cameraX + DRONE_SCREEN_X;
+        this.x += (targetX - this.x) * Math.min(dt * 3, 1);
+        this.y = this.baseY + Math.sin(this.age / 400) * DRONE_HOVER_RANGE;
+        this.fireTimer -= delta;
+        // Rotor blur, with the eye lit just before a shot
+        const charging = this.fireTimer < 250;
+        this.setFrame(charging ? 1 : Math.floor(this.age / 60) % 2 === 0 ? 0 : 3);
+        if (this.fireTimer <= 0) {
+          this.fireTimer = DRONE_FIRE_INTERVAL;
+          return true;
+        }
+        return false;
+      }
+
+      case 'balloon':
+        this.y -= BALLOON_RISE_SPEED * dt;
+        this.x += Math.sin(this.age / 700) * 0.2;
+        this.setFrame(Math.floor(this.age / 500) % 2); // string sways
+        return false;
+    }
+  }
+
+  /** Take a hit. Returns true if it was brought down. */
+  hit(blast: boolean = false): boolean {
+    if (this.isDestroyed) return false;
+    this.hp = blast ? 0 : this.hp - 1;
+
+    if (this.hp > 0) {
+      this.setTint(0xff8888);
+      this.scene.time.delayedCall(80, () => this.clearTint());
+      return false;
+    }
+
+    this.isDestroyed = true;
+    this.setFrame(2);
+    if (this.type === 'balloon') {
+      // Popped: shreds hang for a moment and vanish
+      this.scene.tweens.add({
+        targets: this,
+        alpha: 0,
+        duration: 250,
+        delay: 100,
+        onComplete: () => this.destroy(),
+      });
+    } else {
+      // Tumble out of the sky
+      this.scene.tweens.add({
+        targets: this,
+        y: this.y + 260,
+        rotation: this.type === 'bird' ? 4 : -3,
+        alpha: 0,
+        duration: 900,
+        ease: 'Quad.easeIn',
+        onComplete: () => this.destroy(),
+      });
+    }
+    return true;
+  }
+
+  /** Leave the area when the airborne window closes */
+  retreat(): void {
+    if (this.isDestroyed) return;
+    this.isDestroyed = true;
+    this.scene.tweens.add({
+      targets: this,
+      y: this.type === 'balloon' ? this.y - 200 : this.y - 150,
+      alpha: 0,
+      duration: 600,
+      onComplete: () => this.destroy(),
+    });
+  }
+}
+
+/** A slow energy ball fired by a drone (or a boss), straight at where the athlete was */
+export class HazardShot extends Phaser.GameObjects.Sprite {
+  public cause: 'drone' | 'boss';
+  private vx: number;
+  private vy: number;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, targetX: number, targetY: number, cause: 'drone' | 'boss' = 'drone') {
+    super(scene, x, y, cause === 'boss' ? 'boss_shot' : 'drone_shot');
+    scene.add.existing(this);
+    this.setDepth(9);
+
+    this.cause = cause;
+    const speed = cause === 'boss' ? BOSS_SHOT_SPEED : DRONE_SHOT_SPEED;
+    const angle = Phaser.Math.Angle.Between(x, y, targetX, targetY);
+    this.vx = Math.cos(angle) * speed;
+    this.vy = Math.sin(angle) * speed;
+  }
+
+  updateShot(delta: number): void {
+    const dt = delta / 1000;
+    this.x += this.vx * dt;
+    this.y += this.vy * dt;
+    this.rotation += dt * 8;
+  }
+}
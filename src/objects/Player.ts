@@ -1,7 +1,21 @@
 import Phaser from 'phaser';
-import { GROUND_Y, PLAYER_RUN_SPEED_MAX, PLAYER_RUN_ACCEL, PLAYER_WIDTH, PLAYER_HEIGHT } from '../utils/constants';
+import {
+  GROUND_Y, PLAYER_RUN_SPEED_MAX, PLAYER_WIDTH, PLAYER_HEIGHT,
+  MAGAZINE_SIZE, RELOAD_TIME, MAX_VAULT_POWER,
+  PLAYER_RUN_FRICTION, STRIDE_BOOST, STRIDE_INTERVAL_SLOW, STRIDE_INTERVAL_FAST,
+  STRIDE_PERFECT_WINDOW, STRIDE_GOOD_WINDOW, STRIDE_STUMBLE_MS, PENULTIMATE_BONUS,
+  ATHLETE_MAX_HEALTH, HURT_INVULNERABLE_MS,
+} from '../utils/constants';
+import type { TrickDef } from '../utils/tricks';
 
-export type PlayerState = 'idle' | 'running' | 'planting' | 'vaulting' | 'airborne' | 'shooting' | 'landing' | 'celebrating';
+export type PlayerState =
+  | 'idle' | 'running' | 'planting' | 'vaulting' | 'airborne' | 'shooting' | 'landing' | 'celebrating'
+  | 'backflip' | 'frontflip' | 'twist' | 'superman'; // mid-air tricks (see TRICKS)
+
+export type StrideFoot = 'left' | 'right';
+/** How the athlete came down: graded in the pit, or a crash on bare runway */
+export type LandingGrade = 'clean' | 'rough' | 'faceplant' | 'crash';
+export type StrideResult = 'perfect' | 'good' | 'late' | 'stumble' | 'ignored';
 
 export class Player extends Phaser.GameObjects.Sprite {
   public state: PlayerState = 'idle';
@@ -9,8 +23,29 @@ export class Player extends Phaser.GameObjects.Sprite {
   public vaultAngle: number = 55;
   public vaultPower: number = 0;
   public isPowerCharging: boolean = false;
-  public ammo: number = 6;
-  public maxAmmo: number = 6;
+  public ammo: number = 6;        // rounds in the magazine
+  public maxAmmo: number = 6;     // magazine capacity
+  public reserveAmmo: number = 0; // rounds left for reloads
+  public isReloading: boolean = false;
+  private reloadTimer: number = 0;
+  public landingGrade: LandingGrade | null = null;
+
+  // Air hazards
+  public health: number = ATHLETE_MAX_HEALTH;
+  private hurtTimer: number = 0;
+
+  // Mid-air trick in progress
+  private trick: TrickDef | null = null;
+  private trickTimer: number = 0;
+
+  // Run-up rhythm
+  public penultimateBonus: number = 0;
+  private lastFoot: StrideFoot | null = null;
+  private lastStrideTime: number = 0;
+  private strideInterval: number = STRIDE_INTERVAL_SLOW; // interval the current stride animates over
+  private stumbleTimer: number = 0;
+  private recentStrides: StrideResult[] = [];
+
   private animTimer: number = 0;
   private currentFrameIndex: number = 6; // idle frame
 
@@ -33,18 +68,36 @@ export class Player extends Phaser.GameObjects.Sprite {
     return this;
   }
 
+  /** Touched down: hold the pose for this landing */
+  setLanding(grade: LandingGrade): void {
+    this.landingGrade = grade;
+    this.setState('landing');
+  }
+
   updatePlayer(delta: number): void {
     this.animTimer += delta;
 
+    // Flicker while recovering from a hit
+    if (this.hurtTimer > 0) {
+      this.hurtTimer = Math.max(0, this.hurtTimer - delta);
+      this.setAlpha(this.hurtTimer > 0 && Math.floor(this.hurtTimer / 80) % 2 === 0 ? 0.4 : 1);
+    }
+
     switch (this.state) {
       case 'idle':
         this.showFrame(6);
         break;
 
       case 'running':
-        {
-          const runFrame = Math.floor((this.animTimer / 100) % 6);
-          this.showFrame(runFrame);
+        if (this.stumbleTimer > 0) {
+          this.showFrame(14); // crouched, catching balance
+        } else if (this.lastFoot === null || this.runSpeed < 5) {
+          this.showFrame(6);
+        } else {
+          // Each stride plays half the run cycle: frames 0-2 off the left foot, 3-5 off the right
+          const progress = Math.min((this.scene.time.now - this.lastStrideTime) / this.strideInterval, 0.99);
+          const base = this.lastFoot === 'left' ? 0 : 3;
+          this.showFrame(base + Math.floor(progress * 3));
         }
         break;
 
@@ -81,15 +134,85 @@ export class Player extends Phaser.GameObjects.Sprite {
         break;
 
       case 'landing':
-        this.showFrame(14);
+        switch (this.landingGrade) {
+          case 'clean':     this.showFrame(19); break; // stuck it, arms up
+          case 'rough':     this.showFrame(20); break; // sunk in, flailing
+          case 'faceplant': this.showFrame(21); break; // pitched forward
+          case 'crash':     this.showFrame(22); break; // sprawled, seeing stars
+          default:          this.showFrame(14); break; // still falling, braced
+        }
         break;
 
       case 'celebrating':
         this.showFrame(15);
         break;
+
+      case 'backflip':
+      case 'frontflip':
+      case 'twist':
+      case 'superman':
+        if (this.trick) {
+          const frames = this.trick.frames;
+          this.showFrame(frames[Math.min(Math.floor(this.trickProgress * frames.length), frames.length - 1)]);
+        }
+        break;
     }
   }
 
+  get isInvulnerable(): boolean {
+    return this.hurtTimer > 0;
+  }
+
+  /** Struck by a hazard. Returns the health left; ignored during the grace period after a hit. */
+  hurt(): number {
+    if (this.hurtTimer > 0) return this.health;
+    this.health = Math.max(0, this.health - 1);
+    this.hurtTimer = HURT_INVULNERABLE_MS;
+    return this.health;
+  }
+
+  get isTricking(): boolean {
+    return this.trick !== null;
+  }
+
+  get trickProgress(): number {
+    return this.trick ? Math.min(this.trickTimer / this.trick.durationMs, 1) : 0;
+  }
+
+  /** Start a mid-air trick. Only one at a time. */
+  startTrick(trick: TrickDef): boolean {
+    if (this.trick) return false;
+    this.trick = trick;
+    this.trickTimer = 0;
+    this.setState(trick.id);
+    return true;
+  }
+
+  /**
+   * Spin through the trick in progress. Returns the trick on the frame it
+   * completes; the scene then decides which state to return to.
+   */
+  updateTrick(delta: number): TrickDef | null {
+    if (!this.trick) return null;
+    this.trickTimer += delta;
+    const progress = this.trickProgress;
+    const eased = Phaser.Math.Easing.Sine.InOut(progress);
+    this.setRotation(this.trick.spin * eased + this.trick.lean * Math.sin(progress * Math.PI));
+    if (progress < 1) return null;
+
+    const done = this.trick;
+    this.trick = null;
+    this.setRotation(0);
+    return done;
+  }
+
+  /** Came down mid-trick: abandon it where it is */
+  bailTrick(): TrickDef | null {
+    const bailed = this.trick;
+    this.trick = null;
+    return bailed;
+  }
+
   showFrame(frame: number): void {
     if (this.currentFrameIndex !== frame) {
       this.currentFrameIndex = frame;
@@ -97,12 +220,96 @@ export class Player extends Phaser.GameObjects.Sprite {
     }
   }
 
-  accelerate(delta: number): void {
-    this.runSpeed = Math.min(this.runSpeed + PLAYER_RUN_ACCEL * (delta / 1000), PLAYER_RUN_SPEED_MAX);
+  /** Ideal time between strides: cadence quickens as the athlete gets faster */
+  getIdealStrideInterval(): number {
+    const speedFrac = this.runSpeed / PLAYER_RUN_SPEED_MAX;
+    return STRIDE_INTERVAL_SLOW + (STRIDE_INTERVAL_FAST - STRIDE_INTERVAL_SLOW) * speedFrac;
+  }
+
+  /** Time since the last stride as a fraction of the ideal interval (for the cadence meter) */
+  getStridePhase(now: number): number {
+    if (this.lastFoot === null) return 0;
+    return (now - this.lastStrideTime) / this.getIdealStrideInterval();
+  }
+
+  get isStumbling(): boolean {
+    return this.stumbleTimer > 0;
+  }
+
+  /**
+   * Register a foot strike. Feet must alternate; strides on the ideal cadence
+   * build the most speed, rushed or repeated strides cause a stumble.
+   */
+  stride(foot: StrideFoot, now: number): StrideResult {
+    if (this.stumbleTimer > 0) return 'ignored';
+
+    const ideal = this.getIdealStrideInterval();
+    let result: StrideResult;
+
+    if (this.lastFoot === null) {
+      // First step off the mark
+      result = 'good';
+      this.runSpeed = Math.min(this.runSpeed + STRIDE_BOOST * 0.5, PLAYER_RUN_SPEED_MAX);
+    } else {
+      const error = (now - this.lastStrideTime - ideal) / ideal;
+      if (foot === this.lastFoot || error < -STRIDE_GOOD_WINDOW) {
+        result = 'stumble';
+        this.runSpeed *= 0.6;
+        this.stumbleTimer = STRIDE_STUMBLE_MS;
+      } else if (Math.abs(error) <= STRIDE_PERFECT_WINDOW) {
+        result = 'perfect';
+        this.runSpeed = Math.min(this.runSpeed + STRIDE_BOOST, PLAYER_RUN_SPEED_MAX);
+      } else if (error <= STRIDE_GOOD_WINDOW) {
+        result = 'good';
+        this.runSpeed = Math.min(this.runSpeed + STRIDE_BOOST * 0.6, PLAYER_RUN_SPEED_MAX);
+      } else {
+        // Too slow: the stride still pushes, but weakly
+        result = 'late';
+        this.runSpeed = Math.min(this.runSpeed + STRIDE_BOOST * 0.25, PLAYER_RUN_SPEED_MAX);
+      }
+    }
+
+    if (result !== 'stumble') {
+      this.lastFoot = foot;
+      this.lastStrideTime = now;
+      this.strideInterval = this.getIdealStrideInterval();
+    }
+    this.recentStrides = [...this.recentStrides.slice(-1), result];
+    return result;
+  }
+
+  /** Friction and stumble recovery while running */
+  updateRun(delta: number): void {
+    this.runSpeed = Math.max(0, this.runSpeed - PLAYER_RUN_FRICTION * (delta / 1000));
+    if (this.stumbleTimer > 0) {
+      this.stumbleTimer = Math.max(0, this.stumbleTimer - delta);
+    }
+  }
+
+  /**
+   * Called at the plant. Two clean strides right before the box (the
+   * penultimate and final step) give extra drive into the pole.
+   */
+  commitPenultimate(now: number): number {
+    const recentEnough = this.lastFoot !== null && now - this.lastStrideTime < this.getIdealStrideInterval() * 1.5;
+    const clean = this.recentStrides.length === 2 &&
+      this.recentStrides.every(r => r === 'perfect' || r === 'good');
+    if (!recentEnough || !clean) {
+      this.penultimateBonus = 0;
+    } else {
+      const perfect = this.recentStrides.every(r => r === 'perfect');
+      this.penultimateBonus = perfect ? PENULTIMATE_BONUS : PENULTIMATE_BONUS / 2;
+    }
+    return this.penultimateBonus;
   }
 
   resetRun(): void {
     this.runSpeed = 0;
+    this.lastFoot = null;
+    this.lastStrideTime = 0;
+    this.stumbleTimer = 0;
+    this.recentStrides = [];
+    this.penultimateBonus = 0;
   }
 
   startPowerCharge(): void {
@@ -112,7 +319,7 @@ export class Player extends Phaser.GameObjects.Sprite {
 
   chargePower(delta: number): void {
     if (this.isPowerCharging) {
-      this.vaultPower = Math.min(this.vaultPower + 400 * (delta / 1000), 600);
+      this.vaultPower = Math.min(this.vaultPower + 400 * (delta / 1000), MAX_VAULT_POWER);
     }
   }
 
@@ -124,17 +331,66 @@ export class Player extends Phaser.GameObjects.Sprite {
     return power + speedBonus;
   }
 
-  getVaultVelocity(): { vx: number; vy: number } {
+  /**
+   * How hard the athlete drives into the pole: charged power plus run speed as a 0-1 share,
+   * scaled up by the penultimate-stride bonus, so it tops out at 1 + PENULTIMATE_BONUS
+   */
+  getPoleLoad(): number {
     const totalPower = this.vaultPower + (this.runSpeed / PLAYER_RUN_SPEED_MAX) * 200;
-    const angleRad = Phaser.Math.DegToRad(this.vaultAngle);
-    return {
-      vx: Math.cos(angleRad) * totalPower * 0.35,
-      vy: -Math.sin(angleRad) * totalPower * 1.0,
-    };
+    return Math.min(totalPower / (MAX_VAULT_POWER + 200), 1) * (1 + this.penultimateBonus);
+  }
+
+  /** Split a level's ammo allowance into a full magazine plus reserve */
+  loadAmmo(total: number): void {
+    this.maxAmmo = Math.min(total, MAGAZINE_SIZE);
+    this.ammo = this.maxAmmo;
+    this.reserveAmmo = total - this.ammo;
+    this.isReloading = false;
+    this.reloadTimer = 0;
+  }
+
+  /** Extra rounds from a pickup: top up the magazine straight away, the rest goes in reserve */
+  addAmmo(rounds: number): void {
+    this.reserveAmmo += rounds;
+    const loaded = Math.min(this.maxAmmo - this.ammo, this.reserveAmmo);
+    this.ammo += loaded;
+    this.reserveAmmo -= loaded;
+    this.isReloading = false;
+    this.reloadTimer = 0;
+  }
+
+  get totalAmmo(): number {
+    return this.ammo + this.reserveAmmo;
+  }
+
+  get reloadProgress(): number {
+    return this.isReloading ? this.reloadTimer / RELOAD_TIME : 0;
+  }
+
+  startReload(): boolean {
+    if (this.isReloading || this.reserveAmmo <= 0 || this.ammo >= this.maxAmmo) return false;
+    this.isReloading = true;
+    this.reloadTimer = 0;
+    return true;
+  }
+
+  /** Tick an in-progress reload. Returns true on the frame it completes. */
+  updateReload(delta: number): boolean {
+    if (!this.isReloading) return false;
+    this.reloadTimer += delta / 1000;
+    if (this.reloadTimer < RELOAD_TIME) return false;
+
+    const loaded = Math.min(this.maxAmmo - this.ammo, this.reserveAmmo);
+    this.ammo += loaded;
+    this.reserveAmmo -= loaded;
+    this.isReloading = false;
+    this.reloadTimer = 0;
+    return true;
   }
 
   shoot(): boolean {
-    // Unlimited ammo
+    if (this.isReloading || this.ammo <= 0) return false;
+    this.ammo--;
     this.state = 'shooting';
     this.animTimer = 0;
     return true;
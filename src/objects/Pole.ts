@@ -1,5 +1,11 @@
 import Phaser from 'phaser';
-import { GROUND_Y } from '../utils/constants';
+import {
+  GROUND_Y, POLE_LENGTH, POLE_STIFFNESS, POLE_DAMPING, POLE_MAX_BEND,
+  POLE_PLANT_LEAN, POLE_RELEASE_LEAN, POLE_RECOIL_SPEED, POLE_RECOIL_X_SHARE,
+} from '../utils/constants';
+
+const BEND_SEGMENTS = 12;
+const MIN_LOAD = 0.15; // even a lazy plant flexes the pole a little
 
 export class Pole extends Phaser.GameObjects.Sprite {
   public isPlanted: boolean = false;
@@ -7,17 +13,30 @@ export class Pole extends Phaser.GameObjects.Sprite {
   public bendAmount: number = 0;
   private plantX: number = 0;
 
+  // Spring state while the athlete rides the pole
+  public isRiding: boolean = false;
+  private bendVelocity: number = 0;
+  private rideTime: number = 0;
+  private recoilSpeed: number = 0;
+  private readonly omega: number = Math.sqrt(POLE_STIFFNESS);
+  private bendGraphics: Phaser.GameObjects.Graphics;
+
   constructor(scene: Phaser.Scene, x: number, y: number) {
     super(scene, x, y, 'pole');
     scene.add.existing(this);
     
     this.setOrigin(0.5, 1);
     this.setVisible(false);
-    this.setDisplaySize(8, 128);
+    this.setDisplaySize(8, POLE_LENGTH);
+
+    this.bendGraphics = scene.add.graphics();
   }
 
   /** Start carrying the pole horizontally while running */
   startCarrying(): void {
+    // Picking it back up after a vault: cancel the fall-away fade
+    this.scene.tweens.killTweensOf(this);
+    this.setAlpha(1);
     this.isCarried = true;
     this.isPlanted = false;
     this.setVisible(true);
@@ -39,39 +58,143 @@ export class Pole extends Phaser.GameObjects.Sprite {
     this.bendAmount = 0;
     this.setVisible(true);
 
-    // Animate from current horizontal carry position to vertical planted position
+    // Animate from current horizontal carry position to the planted lean
     this.scene.tweens.add({
       targets: this,
       x: x,
       y: GROUND_Y,
-      rotation: 0, // vertical
+      rotation: Phaser.Math.DegToRad(POLE_PLANT_LEAN),
       duration: 120,
       ease: 'Quad.easeOut',
     });
   }
 
-  updatePole(playerX: number, playerY: number, vaulting: boolean): void {
-    if (!this.isPlanted) return;
-
-    if (vaulting) {
-      // Calculate bend based on player position relative to plant point
-      const dx = playerX - this.plantX;
-      const dy = playerY - GROUND_Y;
-      const angle = Math.atan2(dy, dx);
-      this.setRotation(angle + Math.PI / 2);
-      
-      // Scale based on distance (pole stretches/compresses)
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      const baseLen = 128;
-      this.setDisplaySize(8, Math.min(dist, baseLen));
-      
-      this.bendAmount = Math.abs(dx) / 100;
+  /**
+   * Load the pole. The athlete's drive (run speed + charged power) is dumped
+   * into the spring; a flatter plant angle sends more of it into the bend.
+   */
+  startVault(plantAngleDeg: number, load: number): void {
+    this.scene.tweens.killTweensOf(this);
+    const plantFactor = 0.85 + 0.3 * Math.cos(Phaser.Math.DegToRad(plantAngleDeg));
+    this.isRiding = true;
+    this.rideTime = 0;
+    this.recoilSpeed = 0;
+    this.bendAmount = 0;
+    this.bendVelocity = this.omega * Math.max(load, MIN_LOAD) * plantFactor;
+    this.setVisible(false);
+  }
+
+  /**
+   * Step the damped spring and swing the pole over the box.
+   * Returns the athlete's hand position at the pole tip, and whether the pole
+   * has just finished straightening (the moment to let go).
+   */
+  updateVault(delta: number): { handX: number; handY: number; recoiled: boolean } {
+    const dt = delta / 1000;
+    this.rideTime += dt;
+
+    // b'' = -k*b - c*b'
+    const accel = -POLE_STIFFNESS * this.bendAmount - POLE_DAMPING * this.bendVelocity;
+    this.bendVelocity += accel * dt;
+    this.bendAmount += this.bendVelocity * dt;
+
+    if (this.bendAmount > POLE_MAX_BEND) {
+      // Over-bent: the pole bottoms out and the excess drive is lost
+      this.bendAmount = POLE_MAX_BEND;
+      this.bendVelocity = 0;
+    }
+
+    let recoiled = false;
+    if (this.bendAmount <= 0 && this.bendVelocity < 0) {
+      // Pole is straight again while still snapping back: that's the fling
+      this.recoilSpeed = -this.bendVelocity;
+      this.bendAmount = 0;
+      this.bendVelocity = 0;
+      this.isRiding = false;
+      recoiled = true;
+    }
+
+    const tip = this.getTipPosition();
+    this.drawBentPole(tip.x, tip.y);
+    return { handX: tip.x, handY: tip.y, recoiled };
+  }
+
+  /** Launch velocity from the recoil, aimed along the chosen vault angle */
+  getLaunchVelocity(vaultAngleDeg: number): { vx: number; vy: number } {
+    const speed = (this.recoilSpeed / this.omega) * POLE_RECOIL_SPEED;
+    const angleRad = Phaser.Math.DegToRad(vaultAngleDeg);
+    return {
+      vx: Math.cos(angleRad) * speed * POLE_RECOIL_X_SHARE,
+      vy: -Math.sin(angleRad) * speed,
+    };
+  }
+
+  /** Current lean from vertical in radians */
+  private getLean(): number {
+    // The swing takes half a spring period: straight → full bend → straight
+    const halfPeriod = Math.PI / this.omega;
+    const t = Math.min(this.rideTime / halfPeriod, 1);
+    return Phaser.Math.DegToRad(POLE_PLANT_LEAN + (POLE_RELEASE_LEAN - POLE_PLANT_LEAN) * t);
+  }
+
+  private getTipPosition(): { x: number; y: number } {
+    const lean = this.getLean();
+    // Bending shortens the chord between the box and the athlete's hands
+    const chord = POLE_LENGTH * (1 - 0.45 * this.bendAmount);
+    return {
+      x: this.plantX + Math.sin(lean) * chord,
+      y: GROUND_Y - Math.cos(lean) * chord,
+    };
+  }
+
+  /** Draw the flexed pole as a segmented quadratic curve from box to tip */
+  private drawBentPole(tipX: number, tipY: number): void {
+    const g = this.bendGraphics;
+    g.clear();
+    g.setDepth(this.depth);
+
+    const baseX = this.plantX;
+    const baseY = GROUND_Y;
+    const dx = tipX - baseX;
+    const dy = tipY - baseY;
+    const len = Math.sqrt(dx * dx + dy * dy) || 1;
+    // Bow forward, away from the athlete
+    const nx = -dy / len;
+    const ny = dx / len;
+    const sag = this.bendAmount * POLE_LENGTH * 0.35;
+    const cx = (baseX + tipX) / 2 + nx * sag * 2;
+    const cy = (baseY + tipY) / 2 + ny * sag * 2;
+
+    let prevX = baseX;
+    let prevY = baseY;
+    for (let i = 1; i <= BEND_SEGMENTS; i++) {
+      const t = i / BEND_SEGMENTS;
+      const u = 1 - t;
+      const x = u * u * baseX + 2 * u * t * cx + t * t * tipX;
+      const y = u * u * baseY + 2 * u * t * cy + t * t * tipY;
+
+      let color = i % 2 === 0 ? 0xc0a060 : 0xd4b878;
+      if (i === 1) color = 0x888888;       // metal tip in the box
+      else if (t > 0.7 && t < 0.88) color = 0x333333; // grip tape
+      g.lineStyle(4, color, 1);
+      g.lineBetween(prevX, prevY, x, y);
+
+      prevX = x;
+      prevY = y;
     }
   }
 
   release(): void {
     this.isPlanted = false;
-    // Animate pole falling
+    this.isRiding = false;
+    this.bendAmount = 0;
+    this.bendGraphics.clear();
+
+    // Hand the straight pole back to the sprite and let it fall
+    this.setPosition(this.plantX, GROUND_Y);
+    this.setRotation(this.getLean());
+    this.setVisible(true);
+
     this.scene.tweens.add({
       targets: this,
       rotation: Math.PI / 2,
@@ -88,9 +211,11 @@ export class Pole extends Phaser.GameObjects.Sprite {
   reset(): void {
     this.isPlanted = false;
     this.isCarried = false;
+    this.isRiding = false;
     this.bendAmount = 0;
+    this.bendVelocity = 0;
+    this.bendGraphics.clear();
     this.setVisible(false);
     this.setRotation(0);
   }
 }
-
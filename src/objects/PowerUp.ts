@@ -0,0 +1,61 @@
+import Phaser from 'phaser';
+import { PowerUpId, POWER_UPS } from '../utils/powerups';
+import { GROUND_Y, POWERUP_DROP_SPEED } from '../utils/constants';
+
+/**
+ * A power-up capsule: either hanging in the flight path or dropped by a special
+ * target, in which case it drifts down until caught or it reaches the ground.
+ */
+export class PowerUp extends Phaser.GameObjects.Sprite {
+  public powerUp: PowerUpId;
+  public isCollected: boolean = false;
+  private falling: boolean;
+  private baseY: number;
+  private age: number = 0;
+
+  constructor(scene: Phaser.Scene, x: number, y: number, powerUp: PowerUpId, falling: boolean = false) {
+    super(scene, x, y, 'powerup', POWER_UPS[powerUp].frame);
+    scene.add.existing(this);
+    this.setDepth(8);
+
+    this.powerUp = powerUp;
+    this.falling = falling;
+    this.baseY = y;
+  }
+
+  updatePowerUp(delta: number): void {
+    if (this.isCollected) return;
+    this.age += delta;
+
+    if (this.falling) {
+      this.y += POWERUP_DROP_SPEED * delta / 1000;
+      this.x += Math.sin(this.age / 300) * 0.3;
+      if (this.y >= GROUND_Y - 8) this.fizzle();
+      return;
+    }
+    // Hanging capsules bob gently so they read as pickups
+    this.y = this.baseY + Math.sin(this.age / 350) * 4;
+  }
+
+  collect(): void {
+    this.isCollected = true;
+    this.scene.tweens.add({
+      targets: this,
+      scale: 2,
+      alpha: 0,
+      duration: 250,
+      onComplete: () => this.destroy(),
+    });
+  }
+
+  /** Dropped capsule hit the ground uncaught */
+  private fizzle(): void {
+    this.isCollected = true;
+    this.scene.tweens.add({
+      targets: this,
+      alpha: 0,
+      duration: 300,
+      onComplete: () => this.destroy(),
+    });
+  }
+}
@@ -1,30 +1,155 @@
 import Phaser from 'phaser';
-import { TARGET_SIZE } from '../utils/constants';
+import { TARGET_SIZE, MOVING_TARGET_SPEED, ARMORED_TARGET_HITS, TARGET_RINGS } from '../utils/constants';
+
+/** Motion pattern a target follows around its anchor point */
+export type TargetMotion = 'static' | 'patrol' | 'bob' | 'sine' | 'orbit' | 'figure8';
+
+/**
+ * What a target does when shot:
+ * armored takes several hits, explosive takes out its neighbours,
+ * golden is worth extra and decoys are no-shoot civilians.
+ */
+export type TargetType = 'normal' | 'armored' | 'explosive' | 'golden' | 'decoy';
+
+const TARGET_TEXTURES: Record<TargetType, string> = {
+  normal: 'target_static',
+  armored: 'target_armored',
+  explosive: 'target_explosive',
+  golden: 'target_golden',
+  decoy: 'target_decoy',
+};
+
+// Pattern sizes (px)
+const PATROL_RANGE = 60;
+const BOB_RANGE = 35;
+const SINE_RANGE_X = 70;
+const SINE_RANGE_Y = 25;
+const ORBIT_RADIUS = 30;
+const FIGURE8_RANGE_X = 50;
+const FIGURE8_RANGE_Y = 30;
 
 export class Target extends Phaser.Physics.Arcade.Sprite {
   public isDestroyed: boolean = false;
-  public points: number = 50;
+  public motion: TargetMotion;
+  public type: TargetType;
+  public hitsLeft: number;
+  private anchorX: number;
+  private anchorY: number;
+  private motionTime: number;
 
   constructor(
     scene: Phaser.Scene,
     x: number,
     y: number,
+    motion: TargetMotion = 'static',
+    type: TargetType = 'normal',
+    motionPhase: number = 0,
   ) {
-    super(scene, x, y, 'target_static', 0);
+    super(scene, x, y, TARGET_TEXTURES[type], 0);
     scene.add.existing(this);
     scene.physics.add.existing(this);
 
     this.setOrigin(0.5, 0.5);
 
+    this.motion = motion;
+    this.type = type;
+    this.hitsLeft = type === 'armored' ? ARMORED_TARGET_HITS : 1;
+    this.anchorX = x;
+    this.anchorY = y;
+    this.motionTime = motionPhase;
+
     const body = this.body as Phaser.Physics.Arcade.Body;
     body.setAllowGravity(false);
     body.setSize(TARGET_SIZE - 4, TARGET_SIZE - 4);
     body.setCircle((TARGET_SIZE - 4) / 2);
   }
 
-  hit(): number {
-    if (this.isDestroyed) return 0;
+  get isMoving(): boolean {
+    return this.motion !== 'static';
+  }
+
+  /** Scoring ring (index into TARGET_RINGS) at a distance from the centre, or -1 if outside the target */
+  ringAt(dist: number): number {
+    return TARGET_RINGS.findIndex(ring => dist <= ring.radius * this.scaleX);
+  }
+
+  /** Decoys don't count towards the level's targets */
+  get isShootable(): boolean {
+    return this.type !== 'decoy';
+  }
+
+  /** Advance the motion pattern. Speeds are tuned so the peak speed is ~MOVING_TARGET_SPEED. */
+  updateMotion(delta: number): void {
+    if (this.isDestroyed || !this.isMoving) return;
+    this.motionTime += delta / 1000;
+    const t = this.motionTime;
+
+    switch (this.motion) {
+      case 'patrol': {
+        // Horizontal back-and-forth
+        const w = MOVING_TARGET_SPEED / PATROL_RANGE;
+        this.setPosition(this.anchorX + Math.sin(t * w) * PATROL_RANGE, this.anchorY);
+        break;
+      }
+      case 'bob': {
+        // Vertical up-and-down
+        const w = MOVING_TARGET_SPEED / BOB_RANGE;
+        this.setPosition(this.anchorX, this.anchorY + Math.sin(t * w) * BOB_RANGE);
+        break;
+      }
+      case 'sine': {
+        // Steady horizontal sweep with a vertical wiggle riding on top
+        const period = (SINE_RANGE_X * 4) / MOVING_TARGET_SPEED;
+        const sweep = Math.abs(((t / period) % 1) * 4 - 2) - 1; // triangle wave, -1..1
+        const x = sweep * SINE_RANGE_X;
+        this.setPosition(this.anchorX + x, this.anchorY + Math.sin(x / 12) * SINE_RANGE_Y);
+        break;
+      }
+      case 'orbit': {
+        const w = MOVING_TARGET_SPEED / ORBIT_RADIUS;
+        this.setPosition(
+          this.anchorX + Math.cos(t * w) * ORBIT_RADIUS,
+          this.anchorY + Math.sin(t * w) * ORBIT_RADIUS
+        );
+        break;
+      }
+      case 'figure8': {
+        // Lissajous 1:2 curve
+        const w = MOVING_TARGET_SPEED / (FIGURE8_RANGE_X * 1.5);
+        this.setPosition(
+          this.anchorX + Math.sin(t * w) * FIGURE8_RANGE_X,
+          this.anchorY + Math.sin(t * w * 2) * FIGURE8_RANGE_Y
+        );
+        break;
+      }
+    }
+  }
+
+  /**
+   * Register a hit. Returns true if the target was destroyed,
+   * false if armour soaked it up. A blast destroys it outright.
+   */
+  hit(blast: boolean = false): boolean {
+    if (this.isDestroyed) return false;
+    this.hitsLeft = blast ? 0 : this.hitsLeft - 1;
+
+    if (this.hitsLeft > 0) {
+      // Cracked armour, darkening with every hit
+      this.setFrame(1);
+      const shade = Math.floor(255 * (0.5 + 0.5 * (this.hitsLeft / ARMORED_TARGET_HITS)));
+      this.setTint(Phaser.Display.Color.GetColor(255, shade, shade));
+      this.scene.tweens.add({
+        targets: this,
+        x: this.x + 3,
+        duration: 40,
+        yoyo: true,
+        repeat: 1,
+      });
+      return false;
+    }
+
     this.isDestroyed = true;
+    this.clearTint();
 
     // Show destroyed frame
     this.setFrame(2);
@@ -42,6 +167,6 @@ export class Target extends Phaser.Physics.Arcade.Sprite {
       },
     });
 
-    return this.points;
+    return true;
   }
 }
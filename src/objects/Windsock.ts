@@ -0,0 +1,28 @@
+import Phaser from 'phaser';
+import { GROUND_Y } from '../utils/constants';
+
+// Wind speed (m/s) at which the sock stands straight out
+const FULL_WIND = 4;
+
+/** Trackside windsock: fills out and turns with the current wind */
+export class Windsock extends Phaser.GameObjects.Sprite {
+  private flutterTime: number = 0;
+
+  constructor(scene: Phaser.Scene, x: number) {
+    super(scene, x, GROUND_Y, 'windsock', 0);
+    scene.add.existing(this);
+    this.setOrigin(0.5, 1);
+  }
+
+  /** Positive speed blows towards the landing pit (right) */
+  setWind(speed: number, delta: number): void {
+    const strength = Math.min(Math.abs(speed) / FULL_WIND, 1);
+    this.flutterTime += delta / 1000;
+
+    // Frames 0-3: limp to fully out; flutter between neighbouring frames
+    const flutter = Math.sin(this.flutterTime * (6 + strength * 10)) * 0.4;
+    const frame = Phaser.Math.Clamp(Math.round(strength * 3 + (strength > 0.05 ? flutter : 0)), 0, 3);
+    this.setFrame(frame);
+    this.setFlipX(speed < 0);
+  }
+}
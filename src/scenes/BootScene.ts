@@ -1,6 +1,17 @@
 import Phaser from 'phaser';
 import { SoundGenerator } from '../utils/SoundGenerator';
 import { MusicEngine } from '../utils/MusicEngine';
+import { CROSSBAR_UPRIGHT_HEIGHT } from '../utils/constants';
+
+/** Colours for one target type's rings */
+interface TargetPalette {
+  outer: string;
+  ring: string;
+  center: string;
+}
+
+/** Body shapes for drawPixelPerson beyond the regular front-on pose (mid-air tricks) */
+type PersonPose = 'standard' | 'tuck' | 'grab' | 'side' | 'back' | 'superman';
 
 export class BootScene extends Phaser.Scene {
   constructor() {
@@ -69,10 +80,14 @@ export class BootScene extends Phaser.Scene {
     this.generatePoleSprite();
     // Crossbar (vault-over bar)
     this.generateCrossbarSprite();
-    // Gun
+    // Landing pit foam
+    this.generatePitSprite();
+    // Guns
     this.generateGunSprite();
-    // Bullet
+    this.generateWeaponSprites();
+    // Bullets
     this.generateBulletSprite();
+    this.generateProjectileSprites();
     // Crosshair
     this.generateCrosshairSprite();
     // Targets
@@ -83,6 +98,14 @@ export class BootScene extends Phaser.Scene {
     this.generateParticles();
     // Spike wall
     this.generateSpikeWallSprite();
+    // Windsock
+    this.generateWindsockSprite();
+    // Air hazards
+    this.generateHazardSprites();
+    // Bosses
+    this.generateBossSprites();
+    // Power-up capsules
+    this.generatePowerUpSprites();
     // Blood splatter particle
     this.generateBloodParticle();
     // Background tiles
@@ -93,7 +116,7 @@ export class BootScene extends Phaser.Scene {
     // Generate a pixel art player sprite sheet (8 run frames + vault + air + shoot poses)
     const frameW = 32;
     const frameH = 64;
-    const totalFrames = 19;
+    const totalFrames = 28;
     const canvas = document.createElement('canvas');
     canvas.width = frameW * totalFrames;
     canvas.height = frameH;
@@ -124,6 +147,9 @@ export class BootScene extends Phaser.Scene {
       // 13: shooting down-right
       // 14: landing
       // 15: celebrating
+      // 16-18: vault tuck / extended / float variant
+      // 19-22: landings - clean, rough, face-plant, crash
+      // 23-27: tricks - flip tuck, tuck grab, twist side-on, twist back view, superman
 
       ctx.save();
       
@@ -174,6 +200,38 @@ export class BootScene extends Phaser.Scene {
       } else if (f === 18) {
         // Airborne float variant - slight arm/leg variation for bobbing
         this.drawPixelPerson(ctx, ox, -3, 1, -2, false, false, 0);
+      } else if (f === 19) {
+        // Clean landing - knees soft, arms thrown up
+        this.drawPixelPerson(ctx, ox, 3, 2, -7, false, false, 0);
+      } else if (f === 20) {
+        // Rough landing - sunk low, legs splayed, arms flailing
+        this.drawPixelPerson(ctx, ox, 6, 7, 6, false, false, 0);
+      } else if (f === 21) {
+        // Face-plant - folded forward (the scene tips the sprite onto its front)
+        this.drawPixelPerson(ctx, ox, 6, -6, 7, true, false, 0);
+      } else if (f === 22) {
+        // Crash - sprawled (the scene tips the sprite onto its back), dizzy stars overhead
+        this.drawPixelPerson(ctx, ox, 4, 6, -8, false, false, 0);
+        ctx.fillStyle = '#ffdd44';
+        for (const [sx, sy] of [[ox + 8, 4], [ox + 16, 1], [ox + 24, 4]]) {
+          ctx.fillRect(sx, sy, 1, 3);
+          ctx.fillRect(sx - 1, sy + 1, 3, 1);
+        }
+      } else if (f === 23) {
+        // Flip tuck - knees hugged to the chest
+        this.drawPixelPerson(ctx, ox, -2, 0, 0, false, false, 0, 'tuck');
+      } else if (f === 24) {
+        // Flip grab - reaching down to grab the shoes
+        this.drawPixelPerson(ctx, ox, -2, 0, 0, false, false, 0, 'grab');
+      } else if (f === 25) {
+        // Twist - side-on mid-turn
+        this.drawPixelPerson(ctx, ox, -4, 0, 0, false, false, 0, 'side');
+      } else if (f === 26) {
+        // Twist - facing away
+        this.drawPixelPerson(ctx, ox, -4, 0, 0, false, false, 0, 'back');
+      } else if (f === 27) {
+        // Superman - stretched out, arms straight past the head (the scene lays the sprite flat)
+        this.drawPixelPerson(ctx, ox, 0, 0, 0, false, false, 0, 'superman');
       }
       
       ctx.restore();
@@ -194,7 +252,8 @@ export class BootScene extends Phaser.Scene {
     armOffset: number,
     holdingPole: boolean,
     holdingGun: boolean,
-    gunAngle: number
+    gunAngle: number,
+    pose: PersonPose = 'standard'
   ): void {
     const skin = '#e8b87a';
     const skinDark = '#c49660';
@@ -209,11 +268,35 @@ export class BootScene extends Phaser.Scene {
 
     const baseY = 20 + bounceY;
 
+    if (pose === 'side') {
+      // Profile: narrower head and body, one arm and leg visible
+      this.fillPixelRect(ctx, ox + 13, baseY, 6, 8, skin);
+      this.fillPixelRect(ctx, ox + 13, baseY, 6, 3, hair);
+      this.fillPixelRect(ctx, ox + 13, baseY + 3, 2, 3, hair);
+      this.fillPixelRect(ctx, ox + 18, baseY + 3, 1, 2, '#2a1a0a');
+      this.fillPixelRect(ctx, ox + 12, baseY, 1, 8, outline);
+      this.fillPixelRect(ctx, ox + 19, baseY, 1, 8, outline);
+      this.fillPixelRect(ctx, ox + 15, baseY + 8, 3, 2, skin);
+      this.fillPixelRect(ctx, ox + 12, baseY + 10, 8, 12, shirt);
+      this.fillPixelRect(ctx, ox + 12, baseY + 10, 2, 12, shirtDark);
+      this.fillPixelRect(ctx, ox + 12, baseY + 20, 8, 2, '#3a3a3a');
+      this.fillPixelRect(ctx, ox + 15, baseY + 11, 3, 9, skin);
+      this.fillPixelRect(ctx, ox + 14, baseY + 22, 5, 10, pants);
+      this.fillPixelRect(ctx, ox + 14, baseY + 22, 2, 10, pantsDark);
+      this.fillPixelRect(ctx, ox + 14, baseY + 32, 7, 4, shoes);
+      return;
+    }
+
     // Head (8x8)
     this.fillPixelRect(ctx, ox + 12, baseY, 8, 8, skin);
-    this.fillPixelRect(ctx, ox + 12, baseY, 8, 3, hair);
-    // Eyes
-    this.fillPixelRect(ctx, ox + 18, baseY + 3, 2, 2, '#2a1a0a');
+    if (pose === 'back') {
+      // Back of the head: all hair, no face
+      this.fillPixelRect(ctx, ox + 12, baseY, 8, 7, hair);
+    } else {
+      this.fillPixelRect(ctx, ox + 12, baseY, 8, 3, hair);
+      // Eyes
+      this.fillPixelRect(ctx, ox + 18, baseY + 3, 2, 2, '#2a1a0a');
+    }
     // Head outline
     this.fillPixelRect(ctx, ox + 11, baseY, 1, 8, outline);
     this.fillPixelRect(ctx, ox + 20, baseY, 1, 8, outline);
@@ -223,15 +306,29 @@ export class BootScene extends Phaser.Scene {
     this.fillPixelRect(ctx, ox + 14, baseY + 8, 4, 2, skin);
 
     // Torso (12x12)
-    this.fillPixelRect(ctx, ox + 10, baseY + 10, 12, 12, shirt);
+    this.fillPixelRect(ctx, ox + 10, baseY + 10, 12, 12, pose === 'back' ? shirtDark : shirt);
     this.fillPixelRect(ctx, ox + 10, baseY + 10, 3, 12, shirtDark);
     // Belt
     this.fillPixelRect(ctx, ox + 10, baseY + 20, 12, 2, '#3a3a3a');
-    this.fillPixelRect(ctx, ox + 18, baseY + 20, 2, 2, '#d4a030'); // buckle
+    if (pose !== 'back') {
+      this.fillPixelRect(ctx, ox + 18, baseY + 20, 2, 2, '#d4a030'); // buckle
+    }
 
     // Arms
     const armY = baseY + 11;
-    if (holdingGun) {
+    if (pose === 'superman') {
+      // Both arms straight up past the head
+      this.fillPixelRect(ctx, ox + 10, baseY - 12, 3, 23, skin);
+      this.fillPixelRect(ctx, ox + 19, baseY - 12, 3, 23, skin);
+    } else if (pose === 'tuck') {
+      // Arms wrapped round the knees
+      this.fillPixelRect(ctx, ox + 20, armY + 8, 8, 3, skin);
+      this.fillPixelRect(ctx, ox + 8, armY + 2, 3, 8, skin);
+    } else if (pose === 'grab') {
+      // Reaching down to the shoes
+      this.fillPixelRect(ctx, ox + 22, armY, 3, 16, skin);
+      this.fillPixelRect(ctx, ox + 7, armY, 3, 12, skin);
+    } else if (holdingGun) {
       // Right arm extended with gun
       this.fillPixelRect(ctx, ox + 22, armY + Math.round(armOffset), 6, 3, skin);
       // Gun
@@ -251,6 +348,15 @@ export class BootScene extends Phaser.Scene {
 
     // Legs
     const legY = baseY + 22;
+    if (pose === 'tuck' || pose === 'grab') {
+      // Knees pulled up: thighs forward, shins hanging below the knees
+      const kneeX = pose === 'tuck' ? 26 : 24;
+      this.fillPixelRect(ctx, ox + 12, legY - 4, kneeX - 12, 5, pants);
+      this.fillPixelRect(ctx, ox + 12, legY - 4, kneeX - 12, 2, pantsDark);
+      this.fillPixelRect(ctx, ox + kneeX - 5, legY + 1, 5, 7, pants);
+      this.fillPixelRect(ctx, ox + kneeX - 6, legY + 8, 7, 4, shoes);
+      return;
+    }
     // Right leg
     this.fillPixelRect(ctx, ox + 16, legY, 5, 10 + Math.round(legOffset), pants);
     this.fillPixelRect(ctx, ox + 16, legY, 2, 10 + Math.round(legOffset), pantsDark);
@@ -310,28 +416,30 @@ export class BootScene extends Phaser.Scene {
   }
 
   private generateCrossbarSprite(): void {
-    // Crossbar: two vertical uprights with a horizontal bar across the top
+    // Crossbar uprights: two vertical posts with height pegs (bar is a separate sprite)
+    const h = CROSSBAR_UPRIGHT_HEIGHT;
     const canvas = document.createElement('canvas');
     canvas.width = 48;
-    canvas.height = 96;
+    canvas.height = h;
     const ctx = canvas.getContext('2d')!;
 
     // Left upright
     ctx.fillStyle = '#cccccc';
-    ctx.fillRect(2, 0, 4, 96);
+    ctx.fillRect(2, 0, 4, h);
     ctx.fillStyle = '#aaaaaa';
-    ctx.fillRect(2, 0, 2, 96);
+    ctx.fillRect(2, 0, 2, h);
     // Right upright
     ctx.fillStyle = '#cccccc';
-    ctx.fillRect(42, 0, 4, 96);
+    ctx.fillRect(42, 0, 4, h);
     ctx.fillStyle = '#aaaaaa';
-    ctx.fillRect(42, 0, 2, 96);
+    ctx.fillRect(42, 0, 2, h);
 
-    // Horizontal bar (resting on top of uprights)
-    ctx.fillStyle = '#ee4444';
-    ctx.fillRect(0, 4, 48, 5);
-    ctx.fillStyle = '#ff6666';
-    ctx.fillRect(0, 5, 48, 2);
+    // Height marks every 8px
+    ctx.fillStyle = '#888888';
+    for (let y = 8; y < h; y += 8) {
+      ctx.fillRect(6, y, 2, 1);
+      ctx.fillRect(40, y, 2, 1);
+    }
 
     // Upright caps
     ctx.fillStyle = '#dddddd';
@@ -339,6 +447,43 @@ export class BootScene extends Phaser.Scene {
     ctx.fillRect(41, 0, 6, 4);
 
     this.textures.addCanvas('crossbar', canvas);
+
+    // Horizontal bar
+    const barCanvas = document.createElement('canvas');
+    barCanvas.width = 48;
+    barCanvas.height = 5;
+    const barCtx = barCanvas.getContext('2d')!;
+    barCtx.fillStyle = '#ee4444';
+    barCtx.fillRect(0, 0, 48, 5);
+    barCtx.fillStyle = '#ff6666';
+    barCtx.fillRect(0, 1, 48, 2);
+    barCtx.fillStyle = '#ffffff';
+    barCtx.fillRect(12, 0, 6, 5);
+    barCtx.fillRect(30, 0, 6, 5);
+
+    this.textures.addCanvas('crossbar_bar', barCanvas);
+  }
+
+  private generatePitSprite(): void {
+    // Tileable 32px section of blue foam mat, 14px thick
+    const canvas = document.createElement('canvas');
+    canvas.width = 32;
+    canvas.height = 14;
+    const ctx = canvas.getContext('2d')!;
+
+    ctx.fillStyle = '#2a5db0';
+    ctx.fillRect(0, 0, 32, 14);
+    ctx.fillStyle = '#4a80d8';
+    ctx.fillRect(0, 0, 32, 3); // top highlight
+    ctx.fillStyle = '#1e4488';
+    ctx.fillRect(0, 11, 32, 3); // shadowed base
+    ctx.fillStyle = '#183a70';
+    ctx.fillRect(31, 3, 1, 8); // seam between mats
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(6, 6, 4, 2); // stitched logo dashes
+    ctx.fillRect(14, 6, 4, 2);
+
+    this.textures.addCanvas('pit_foam', canvas);
   }
 
   private generateGunSprite(): void {
@@ -387,6 +532,112 @@ export class BootScene extends Phaser.Scene {
     this.textures.addCanvas('bullet', canvas);
   }
 
+  private generateWeaponSprites(): void {
+    // Shotgun - long double barrel, wooden stock
+    let canvas = document.createElement('canvas');
+    canvas.width = 22;
+    canvas.height = 10;
+    let ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#555555';
+    ctx.fillRect(0, 2, 15, 2); // top barrel
+    ctx.fillStyle = '#4a4a4a';
+    ctx.fillRect(0, 4, 15, 2); // bottom barrel
+    ctx.fillStyle = '#333333';
+    ctx.fillRect(0, 2, 1, 4); // muzzle
+    ctx.fillStyle = '#8b5a2b';
+    ctx.fillRect(6, 6, 5, 2); // pump
+    ctx.fillRect(15, 2, 7, 5); // stock
+    ctx.fillStyle = '#6b4226';
+    ctx.fillRect(17, 6, 4, 3); // grip
+    this.textures.addCanvas('gun_shotgun', canvas);
+
+    // Rifle - thin long barrel with scope
+    canvas = document.createElement('canvas');
+    canvas.width = 24;
+    canvas.height = 8;
+    ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#444444';
+    ctx.fillRect(0, 3, 16, 2); // barrel
+    ctx.fillStyle = '#666666';
+    ctx.fillRect(16, 2, 5, 4); // receiver
+    ctx.fillStyle = '#222222';
+    ctx.fillRect(12, 0, 8, 2); // scope
+    ctx.fillStyle = '#88ccff';
+    ctx.fillRect(12, 0, 1, 2); // lens glint
+    ctx.fillStyle = '#5a3a1a';
+    ctx.fillRect(20, 3, 4, 5); // stock
+    this.textures.addCanvas('gun_rifle', canvas);
+
+    // SMG - stubby body with box magazine
+    canvas = document.createElement('canvas');
+    canvas.width = 16;
+    canvas.height = 11;
+    ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#555555';
+    ctx.fillRect(0, 3, 6, 2); // barrel
+    ctx.fillStyle = '#3a3a3a';
+    ctx.fillRect(6, 1, 10, 5); // body
+    ctx.fillStyle = '#222222';
+    ctx.fillRect(7, 6, 3, 5); // magazine
+    ctx.fillStyle = '#3a3a3a';
+    ctx.fillRect(12, 6, 3, 4); // grip
+    ctx.fillStyle = '#777777';
+    ctx.fillRect(10, 0, 3, 1); // sight
+    this.textures.addCanvas('gun_smg', canvas);
+
+    // Launcher - fat tube
+    canvas = document.createElement('canvas');
+    canvas.width = 22;
+    canvas.height = 12;
+    ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#4a5a3a';
+    ctx.fillRect(0, 1, 18, 7); // tube
+    ctx.fillStyle = '#5a6b48';
+    ctx.fillRect(0, 2, 18, 2); // tube highlight
+    ctx.fillStyle = '#222222';
+    ctx.fillRect(0, 1, 1, 7); // muzzle
+    ctx.fillStyle = '#3a3a3a';
+    ctx.fillRect(12, 8, 3, 4); // grip
+    ctx.fillRect(18, 2, 4, 5); // rear cap
+    this.textures.addCanvas('gun_launcher', canvas);
+  }
+
+  private generateProjectileSprites(): void {
+    // Shotgun pellet
+    let canvas = document.createElement('canvas');
+    canvas.width = 3;
+    canvas.height = 3;
+    let ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#cccccc';
+    ctx.fillRect(0, 0, 3, 3);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(1, 1, 1, 1);
+    this.textures.addCanvas('pellet', canvas);
+
+    // Rifle round - long and bright
+    canvas = document.createElement('canvas');
+    canvas.width = 9;
+    canvas.height = 2;
+    ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#ffee88';
+    ctx.fillRect(0, 0, 9, 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(6, 0, 3, 1);
+    this.textures.addCanvas('rifle_round', canvas);
+
+    // Grenade shell
+    canvas = document.createElement('canvas');
+    canvas.width = 6;
+    canvas.height = 6;
+    ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#4a5a3a';
+    ctx.fillRect(1, 0, 4, 6);
+    ctx.fillRect(0, 1, 6, 4);
+    ctx.fillStyle = '#ff4422';
+    ctx.fillRect(4, 2, 2, 2); // fuse tip
+    this.textures.addCanvas('grenade', canvas);
+  }
+
   private generateCrosshairSprite(): void {
     const canvas = document.createElement('canvas');
     canvas.width = 16;
@@ -408,40 +659,71 @@ export class BootScene extends Phaser.Scene {
   }
 
   private generateTargetSprites(): void {
-    // Stationary target (bullseye)
-    const canvas = document.createElement('canvas');
-    canvas.width = 32 * 3; // 3 frames: normal, hit, destroyed
-    canvas.height = 32;
-    const ctx = canvas.getContext('2d')!;
-
-    // Frame 0: Normal bullseye
-    this.drawBullseye(ctx, 0, 0, false);
-    // Frame 1: Hit (cracked)
-    this.drawBullseye(ctx, 32, 0, true);
-    // Frame 2: Destroyed (fragments)
-    this.drawDestroyedTarget(ctx, 64, 0);
+    // Every target type shares one frame layout: 0 normal, 1 cracked, 2 destroyed
+    const styles: [string, TargetPalette][] = [
+      ['target_static',    { outer: '#eeeeee', ring: '#cc3333', center: '#ffdd44' }],
+      ['target_armored',   { outer: '#aab0b8', ring: '#555b66', center: '#ddddee' }],
+      ['target_explosive', { outer: '#ffcc22', ring: '#222222', center: '#ff3300' }],
+      ['target_golden',    { outer: '#fff4a0', ring: '#e0a800', center: '#ffffff' }],
+      ['target_decoy',     { outer: '#eeeeee', ring: '#3388cc', center: '#eeeeee' }],
+    ];
+
+    for (const [key, palette] of styles) {
+      const canvas = document.createElement('canvas');
+      canvas.width = 32 * 3;
+      canvas.height = 32;
+      const ctx = canvas.getContext('2d')!;
+
+      if (key === 'target_decoy') {
+        this.drawDecoy(ctx, 0, 0, false, palette);
+        this.drawDecoy(ctx, 32, 0, true, palette);
+      } else {
+        this.drawBullseye(ctx, 0, 0, false, palette);
+        this.drawBullseye(ctx, 32, 0, true, palette);
+      }
+      this.drawDestroyedTarget(ctx, 64, 0, palette);
+
+      if (key === 'target_armored') {
+        // Rivets round the rim
+        for (let f = 0; f < 2; f++) {
+          ctx.fillStyle = '#333840';
+          for (const [rx, ry] of [[16, 3], [29, 16], [16, 29], [3, 16]]) {
+            ctx.fillRect(f * 32 + rx - 1, ry - 1, 2, 2);
+          }
+        }
+      } else if (key === 'target_explosive') {
+        // Fuse sticking out of the top
+        for (let f = 0; f < 2; f++) {
+          ctx.fillStyle = '#222222';
+          ctx.fillRect(f * 32 + 15, 0, 2, 3);
+          ctx.fillStyle = '#ff8800';
+          ctx.fillRect(f * 32 + 16, 0, 1, 1);
+        }
+      }
 
-    const staticTex = this.textures.addCanvas('target_static', canvas);
-    for (let i = 0; i < 3; i++) {
-      staticTex.add(i, 0, i * 32, 0, 32, 32);
+      const tex = this.textures.addCanvas(key, canvas)!;
+      for (let i = 0; i < 3; i++) {
+        tex.add(i, 0, i * 32, 0, 32, 32);
+      }
     }
-
   }
 
-  private drawBullseye(ctx: CanvasRenderingContext2D, ox: number, oy: number, cracked: boolean): void {
+  private drawBullseye(
+    ctx: CanvasRenderingContext2D, ox: number, oy: number, cracked: boolean, palette: TargetPalette
+  ): void {
     const cx = ox + 16;
     const cy = oy + 16;
     
-    // Outer ring (white)
-    this.fillPixelCircle(ctx, cx, cy, 14, '#eeeeee');
-    // Red ring
-    this.fillPixelCircle(ctx, cx, cy, 11, '#cc3333');
-    // White ring
-    this.fillPixelCircle(ctx, cx, cy, 8, '#eeeeee');
-    // Red ring
-    this.fillPixelCircle(ctx, cx, cy, 5, '#cc3333');
+    // Outer ring
+    this.fillPixelCircle(ctx, cx, cy, 14, palette.outer);
+    // Coloured ring
+    this.fillPixelCircle(ctx, cx, cy, 11, palette.ring);
+    // Inner ring
+    this.fillPixelCircle(ctx, cx, cy, 8, palette.outer);
+    // Coloured ring
+    this.fillPixelCircle(ctx, cx, cy, 5, palette.ring);
     // Bullseye center
-    this.fillPixelCircle(ctx, cx, cy, 2, '#ffdd44');
+    this.fillPixelCircle(ctx, cx, cy, 2, palette.center);
 
     if (cracked) {
       ctx.fillStyle = '#333333';
@@ -450,10 +732,30 @@ export class BootScene extends Phaser.Scene {
     }
   }
 
+  /** No-shoot target: a civilian silhouette on a blue disc */
+  private drawDecoy(
+    ctx: CanvasRenderingContext2D, ox: number, oy: number, cracked: boolean, palette: TargetPalette
+  ): void {
+    const cx = ox + 16;
+    const cy = oy + 16;
 
-  private drawDestroyedTarget(ctx: CanvasRenderingContext2D, ox: number, oy: number): void {
+    this.fillPixelCircle(ctx, cx, cy, 14, palette.outer);
+    this.fillPixelCircle(ctx, cx, cy, 12, palette.ring);
+    // Head and shoulders
+    this.fillPixelCircle(ctx, cx, cy - 4, 4, palette.center);
+    ctx.fillStyle = palette.center;
+    ctx.fillRect(cx - 7, cy + 3, 14, 7);
+    ctx.fillRect(cx - 5, cy + 1, 10, 2);
+
+    if (cracked) {
+      ctx.fillStyle = '#333333';
+      ctx.fillRect(cx - 1, cy - 8, 2, 16);
+    }
+  }
+
+  private drawDestroyedTarget(ctx: CanvasRenderingContext2D, ox: number, oy: number, palette: TargetPalette): void {
     // Scattered fragments
-    const colors = ['#cc3333', '#eeeeee', '#666666', '#888888', '#555555'];
+    const colors = [palette.ring, palette.outer, '#666666', '#888888', '#555555'];
     const rng = (seed: number) => {
       let x = Math.sin(seed) * 10000;
       return x - Math.floor(x);
@@ -550,6 +852,399 @@ export class BootScene extends Phaser.Scene {
     this.textures.addCanvas('dust', canvas3);
   }
 
+  private generateWindsockSprite(): void {
+    // 4 frames: limp, then filling out further with stronger wind
+    const fw = 40;
+    const fh = 48;
+    const canvas = document.createElement('canvas');
+    canvas.width = fw * 4;
+    canvas.height = fh;
+    const ctx = canvas.getContext('2d')!;
+
+    for (let f = 0; f < 4; f++) {
+      const ox = f * fw;
+      // Mast
+      ctx.fillStyle = '#888888';
+      ctx.fillRect(ox + 19, 4, 2, fh - 4);
+      ctx.fillStyle = '#aaaaaa';
+      ctx.fillRect(ox + 18, 3, 4, 2);
+
+      if (f === 0) {
+        // Hanging limp beside the mast
+        for (let y = 0; y < 14; y++) {
+          ctx.fillStyle = Math.floor(y / 4) % 2 ? '#ffffff' : '#ff6622';
+          ctx.fillRect(ox + 21, 6 + y, 4, 1);
+        }
+        continue;
+      }
+
+      // Tapered striped cone, drooping less the harder it blows
+      const length = [0, 8, 13, 18][f];
+      for (let i = 0; i < length; i++) {
+        const h = Math.round(6 - (i / length) * 2);
+        const droop = Math.round(((3 - f) * i) / length * 3);
+        ctx.fillStyle = Math.floor(i / 4) % 2 ? '#ffffff' : '#ff6622';
+        ctx.fillRect(ox + 21 + i, 6 + droop + Math.floor((6 - h) / 2), 1, h);
+      }
+    }
+
+    const tex = this.textures.addCanvas('windsock', canvas)!;
+    for (let i = 0; i < 4; i++) {
+      tex.add(i, 0, i * fw, 0, fw, fh);
+    }
+  }
+
+  /** Birds, drones, balloons and the drone's shot. Every hazard sheet keeps frame 2 for "shot down". */
+  private generateHazardSprites(): void {
+    // Bird: wings up, wings down, shot down (24x16)
+    {
+      const fw = 24;
+      const fh = 16;
+      const canvas = document.createElement('canvas');
+      canvas.width = fw * 3;
+      canvas.height = fh;
+      const ctx = canvas.getContext('2d')!;
+      for (let f = 0; f < 3; f++) {
+        const ox = f * fw;
+        // Body and head (facing left, toward the athlete)
+        this.fillPixelRect(ctx, ox + 7, 7, 11, 5, '#333340');
+        this.fillPixelRect(ctx, ox + 4, 6, 5, 4, '#333340');
+        this.fillPixelRect(ctx, ox + 1, 8, 3, 1, '#f0a020'); // beak
+        this.fillPixelRect(ctx, ox + 5, 7, 1, 1, f === 2 ? '#ff4444' : '#ffffff');
+        this.fillPixelRect(ctx, ox + 18, 8, 4, 2, '#333340'); // tail
+        if (f === 0) {
+          this.fillPixelRect(ctx, ox + 10, 2, 5, 5, '#555566');
+          this.fillPixelRect(ctx, ox + 13, 0, 4, 3, '#555566');
+        } else if (f === 1) {
+          this.fillPixelRect(ctx, ox + 10, 12, 5, 3, '#555566');
+          this.fillPixelRect(ctx, ox + 13, 14, 4, 2, '#555566');
+        } else {
+          // Loose feathers
+          this.fillPixelRect(ctx, ox + 12, 2, 2, 3, '#777788');
+          this.fillPixelRect(ctx, ox + 17, 4, 2, 2, '#777788');
+          this.fillPixelRect(ctx, ox + 9, 13, 2, 2, '#777788');
+        }
+      }
+      const tex = this.textures.addCanvas('hazard_bird', canvas)!;
+      for (let i = 0; i < 3; i++) tex.add(i, 0, i * fw, 0, fw, fh);
+    }
+
+    // Drone: rotors A, eye lit (about to fire), wrecked, rotors B (28x16)
+    {
+      const fw = 28;
+      const fh = 16;
+      const canvas = document.createElement('canvas');
+      canvas.width = fw * 4;
+      canvas.height = fh;
+      const ctx = canvas.getContext('2d')!;
+      for (let f = 0; f < 4; f++) {
+        const ox = f * fw;
+        const wrecked = f === 2;
+        // Arms and hull
+        this.fillPixelRect(ctx, ox + 3, 5, 22, 2, '#555555');
+        this.fillPixelRect(ctx, ox + 9, 6, 10, 6, wrecked ? '#3a3a3a' : '#666677');
+        this.fillPixelRect(ctx, ox + 9, 6, 10, 1, '#8888aa');
+        // Eye / gun
+        this.fillPixelRect(ctx, ox + 12, 9, 4, 3, f === 1 ? '#ff3333' : wrecked ? '#222222' : '#992222');
+        // Rotors
+        if (!wrecked) {
+          const spin = f === 3 ? 2 : 0;
+          this.fillPixelRect(ctx, ox + spin, 3, 8 - spin * 2, 1, '#cccccc');
+          this.fillPixelRect(ctx, ox + 20 + spin, 3, 8 - spin * 2, 1, '#cccccc');
+        } else {
+          this.fillPixelRect(ctx, ox + 2, 2, 3, 2, '#ff9933'); // sparks
+          this.fillPixelRect(ctx, ox + 22, 1, 2, 2, '#ffdd44');
+          this.fillPixelRect(ctx, ox + 14, 2, 3, 3, '#444444'); // smoke
+        }
+      }
+      const tex = this.textures.addCanvas('hazard_drone', canvas)!;
+      for (let i = 0; i < 4; i++) tex.add(i, 0, i * fw, 0, fw, fh);
+    }
+
+    // Balloon: string left, string right, popped (16x32)
+    {
+      const fw = 16;
+      const fh = 32;
+      const canvas = document.createElement('canvas');
+      canvas.width = fw * 3;
+      canvas.height = fh;
+      const ctx = canvas.getContext('2d')!;
+      for (let f = 0; f < 3; f++) {
+        const ox = f * fw;
+        if (f === 2) {
+          // Shreds
+          this.fillPixelRect(ctx, ox + 4, 6, 3, 2, '#dd3344');
+          this.fillPixelRect(ctx, ox + 10, 4, 2, 3, '#dd3344');
+          this.fillPixelRect(ctx, ox + 7, 11, 3, 2, '#aa2233');
+          continue;
+        }
+        ctx.fillStyle = '#dd3344';
+        ctx.beginPath();
+        ctx.ellipse(ox + 8, 8, 6, 8, 0, 0, Math.PI * 2);
+        ctx.fill();
+        this.fillPixelRect(ctx, ox + 5, 3, 2, 3, '#ff8899'); // shine
+        this.fillPixelRect(ctx, ox + 7, 16, 2, 1, '#aa2233'); // knot
+        for (let y = 17; y < fh; y++) {
+          const sway = Math.round(Math.sin((y - 17) / 4) * (f === 0 ? 1 : -1));
+          this.fillPixelRect(ctx, ox + 8 + sway, y, 1, 1, '#dddddd');
+        }
+      }
+      const tex = this.textures.addCanvas('hazard_balloon', canvas)!;
+      for (let i = 0; i < 3; i++) tex.add(i, 0, i * fw, 0, fw, fh);
+    }
+
+    // Drone shot: glowing orb (8x8)
+    {
+      const canvas = document.createElement('canvas');
+      canvas.width = 8;
+      canvas.height = 8;
+      const ctx = canvas.getContext('2d')!;
+      this.fillPixelRect(ctx, 2, 0, 4, 8, '#ff4466');
+      this.fillPixelRect(ctx, 0, 2, 8, 4, '#ff4466');
+      this.fillPixelRect(ctx, 2, 2, 4, 4, '#ffaacc');
+      this.fillPixelRect(ctx, 3, 3, 2, 2, '#ffffff');
+      this.textures.addCanvas('drone_shot', canvas);
+    }
+  }
+
+  private generateBossSprites(): void {
+    // Blimp: one frame per phase (armour coming away), then the wreck (176x64, faces left)
+    {
+      const fw = 176;
+      const fh = 64;
+      const canvas = document.createElement('canvas');
+      canvas.width = fw * 4;
+      canvas.height = fh;
+      const ctx = canvas.getContext('2d')!;
+      for (let f = 0; f < 4; f++) {
+        const ox = f * fw;
+        const wreck = f === 3;
+        // Tail fins
+        this.fillPixelRect(ctx, ox + 158, 4, 14, 10, wreck ? '#3a3a30' : '#6a6f50');
+        this.fillPixelRect(ctx, ox + 158, 38, 14, 10, wreck ? '#3a3a30' : '#6a6f50');
+        // Envelope
+        ctx.fillStyle = wreck ? '#4a4a3a' : '#8a8f6a';
+        ctx.beginPath();
+        ctx.ellipse(ox + 88, 26, 80, 22, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillStyle = wreck ? '#333328' : '#6a6f50';
+        ctx.beginPath();
+        ctx.ellipse(ox + 88, 34, 72, 12, 0, 0, Math.PI);
+        ctx.fill();
+        this.fillPixelRect(ctx, ox + 30, 12, 116, 2, wreck ? '#555545' : '#a8ad88'); // shine
+        this.fillPixelRect(ctx, ox + 10, 22, 8, 8, wreck ? '#552222' : '#cc3333');   // nose marking
+        // Armour plates over the gas cells until the last phase
+        if (f < 2) {
+          for (const cx of [52, 124]) {
+            this.fillPixelRect(ctx, ox + cx - 10, 10, 20, 16, '#555a60');
+            this.fillPixelRect(ctx, ox + cx - 10, 10, 20, 2, '#7a8088');
+            this.fillPixelRect(ctx, ox + cx - 8, 14, 2, 2, '#333333');
+            this.fillPixelRect(ctx, ox + cx + 6, 14, 2, 2, '#333333');
+          }
+        } else {
+          // Torn edges where the plates were
+          for (const cx of [52, 124]) {
+            this.fillPixelRect(ctx, ox + cx - 10, 10, 20, 16, wreck ? '#2a2a22' : '#4a4f38');
+            this.fillPixelRect(ctx, ox + cx - 11, 12, 2, 3, '#555a60');
+            this.fillPixelRect(ctx, ox + cx + 9, 20, 2, 3, '#555a60');
+          }
+        }
+        // Engine pods on struts
+        for (const cx of [26, 150]) {
+          this.fillPixelRect(ctx, ox + cx - 1, 44, 2, 6, '#444444');
+          this.fillPixelRect(ctx, ox + cx - 10, 50, 20, 8, f === 0 ? '#666677' : '#2a2a2a');
+          if (f > 0) this.fillPixelRect(ctx, ox + cx - 6, 46, 5, 4, '#555555'); // smoke stain
+        }
+        // Gondola
+        this.fillPixelRect(ctx, ox + 74, 46, 28, 14, f < 2 ? '#555a60' : '#2a2a2a');
+        this.fillPixelRect(ctx, ox + 78, 50, 4, 3, f < 2 ? '#aaddff' : '#111111');
+        this.fillPixelRect(ctx, ox + 86, 50, 4, 3, f < 2 ? '#aaddff' : '#111111');
+        this.fillPixelRect(ctx, ox + 94, 50, 4, 3, f < 2 ? '#aaddff' : '#111111');
+        if (wreck) {
+          // Rips and fire
+          this.fillPixelRect(ctx, ox + 60, 18, 10, 3, '#1a1a14');
+          this.fillPixelRect(ctx, ox + 100, 30, 14, 3, '#1a1a14');
+          this.fillPixelRect(ctx, ox + 80, 8, 6, 6, '#ff9933');
+          this.fillPixelRect(ctx, ox + 120, 28, 5, 5, '#ffdd44');
+        }
+      }
+      const tex = this.textures.addCanvas('boss_blimp', canvas)!;
+      for (let i = 0; i < 4; i++) tex.add(i, 0, i * fw, 0, fw, fh);
+    }
+
+    // Mech: one frame per phase, then the wreck (96x112, faces left)
+    {
+      const fw = 96;
+      const fh = 112;
+      const canvas = document.createElement('canvas');
+      canvas.width = fw * 4;
+      canvas.height = fh;
+      const ctx = canvas.getContext('2d')!;
+      for (let f = 0; f < 4; f++) {
+        const ox = f * fw;
+        const wreck = f === 3;
+        const steel = wreck ? '#3a3a3a' : '#6a6e78';
+        const dark = wreck ? '#222222' : '#44474f';
+        // Legs: thigh, knee joint, shin, foot
+        for (const cx of [26, 70]) {
+          this.fillPixelRect(ctx, ox + cx - 6, 70, 12, 12, steel);
+          this.fillPixelRect(ctx, ox + cx - 8, 82, 16, 8, dark);
+          this.fillPixelRect(ctx, ox + cx - 6, 90, 12, 16, steel);
+          this.fillPixelRect(ctx, ox + cx - 12, 106, 22, 6, dark);
+        }
+        // Torso
+        this.fillPixelRect(ctx, ox + 18, 22, 60, 50, steel);
+        this.fillPixelRect(ctx, ox + 18, 22, 60, 3, wreck ? '#4a4a4a' : '#9094a0');
+        this.fillPixelRect(ctx, ox + 22, 66, 52, 6, dark);
+        // Chest plate over the core until the last phase
+        if (f < 2) {
+          this.fillPixelRect(ctx, ox + 36, 34, 24, 24, '#555a60');
+          this.fillPixelRect(ctx, ox + 36, 34, 24, 2, '#7a8088');
+          this.fillPixelRect(ctx, ox + 38, 38, 2, 2, '#333333');
+          this.fillPixelRect(ctx, ox + 56, 38, 2, 2, '#333333');
+        } else {
+          this.fillPixelRect(ctx, ox + 36, 34, 24, 24, '#2a2a2a');
+        }
+        // Cockpit head with a visor
+        this.fillPixelRect(ctx, ox + 32, 6, 24, 16, steel);
+        this.fillPixelRect(ctx, ox + 34, 10, 12, 4, wreck ? '#111111' : '#ff4444');
+        // Shoulder cannon, shuttered in the first phase
+        this.fillPixelRect(ctx, ox + 68, 10, 20, 18, f === 0 ? '#555a60' : dark);
+        this.fillPixelRect(ctx, ox + 56, 14, 14, 5, dark); // barrel pointing at the athlete
+        if (f === 0) this.fillPixelRect(ctx, ox + 70, 12, 16, 2, '#7a8088');
+        // Left arm
+        this.fillPixelRect(ctx, ox + 8, 28, 10, 30, dark);
+        if (wreck) {
+          this.fillPixelRect(ctx, ox + 30, 30, 6, 6, '#ff9933');
+          this.fillPixelRect(ctx, ox + 62, 50, 5, 5, '#ffdd44');
+          this.fillPixelRect(ctx, ox + 44, 0, 8, 6, '#444444'); // smoke
+        }
+      }
+      const tex = this.textures.addCanvas('boss_mech', canvas)!;
+      for (let i = 0; i < 4; i++) tex.add(i, 0, i * fw, 0, fw, fh);
+    }
+
+    // Weak point: glowing core (dim, bright) and broken (20x20)
+    {
+      const fw = 20;
+      const fh = 20;
+      const canvas = document.createElement('canvas');
+      canvas.width = fw * 3;
+      canvas.height = fh;
+      const ctx = canvas.getContext('2d')!;
+      for (let f = 0; f < 3; f++) {
+        const ox = f * fw;
+        this.fillPixelRect(ctx, ox + 3, 3, 14, 14, '#333333');
+        this.fillPixelRect(ctx, ox + 4, 4, 12, 12, '#555555');
+        if (f === 2) {
+          // Smashed: dark and cracked
+          this.fillPixelRect(ctx, ox + 6, 6, 8, 8, '#1a1a1a');
+          this.fillPixelRect(ctx, ox + 7, 9, 6, 1, '#ff6622');
+          this.fillPixelRect(ctx, ox + 9, 6, 1, 8, '#553322');
+          continue;
+        }
+        this.fillPixelRect(ctx, ox + 6, 6, 8, 8, f === 1 ? '#ff6633' : '#cc3322');
+        this.fillPixelRect(ctx, ox + 8, 8, 4, 4, f === 1 ? '#ffee88' : '#ff8844');
+        if (f === 1) {
+          this.fillPixelRect(ctx, ox + 9, 1, 2, 2, '#ffaa66');
+          this.fillPixelRect(ctx, ox + 9, 17, 2, 2, '#ffaa66');
+          this.fillPixelRect(ctx, ox + 1, 9, 2, 2, '#ffaa66');
+          this.fillPixelRect(ctx, ox + 17, 9, 2, 2, '#ffaa66');
+        }
+      }
+      const tex = this.textures.addCanvas('boss_weakpoint', canvas)!;
+      for (let i = 0; i < 3; i++) tex.add(i, 0, i * fw, 0, fw, fh);
+    }
+
+    // Boss shot: a bigger, hotter orb than the drones' (12x12)
+    {
+      const canvas = document.createElement('canvas');
+      canvas.width = 12;
+      canvas.height = 12;
+      const ctx = canvas.getContext('2d')!;
+      this.fillPixelRect(ctx, 3, 0, 6, 12, '#ff6622');
+      this.fillPixelRect(ctx, 0, 3, 12, 6, '#ff6622');
+      this.fillPixelRect(ctx, 3, 3, 6, 6, '#ffcc44');
+      this.fillPixelRect(ctx, 4, 4, 4, 4, '#ffffff');
+      this.textures.addCanvas('boss_shot', canvas);
+    }
+  }
+
+  private generatePowerUpSprites(): void {
+    // Capsules, one frame per power-up in POWER_UPS frame order (16x16)
+    const fw = 16;
+    const fh = 16;
+    const shells = ['#2288aa', '#cc7722', '#bb3333', '#ccaa22', '#339933', '#7744aa'];
+    const canvas = document.createElement('canvas');
+    canvas.width = fw * shells.length;
+    canvas.height = fh;
+    const ctx = canvas.getContext('2d')!;
+    for (let f = 0; f < shells.length; f++) {
+      const ox = f * fw;
+      // Rounded capsule with a white rim and a shine
+      this.fillPixelRect(ctx, ox + 2, 0, 12, 16, '#ffffff');
+      this.fillPixelRect(ctx, ox + 0, 2, 16, 12, '#ffffff');
+      this.fillPixelRect(ctx, ox + 3, 1, 10, 14, shells[f]);
+      this.fillPixelRect(ctx, ox + 1, 3, 14, 10, shells[f]);
+      this.fillPixelRect(ctx, ox + 3, 2, 3, 1, '#ffffff');
+
+      const c = '#ffffff';
+      switch (f) {
+        case 0: // Hourglass: extra air time
+          this.fillPixelRect(ctx, ox + 5, 4, 6, 1, c);
+          this.fillPixelRect(ctx, ox + 6, 5, 4, 2, c);
+          this.fillPixelRect(ctx, ox + 7, 7, 2, 2, c);
+          this.fillPixelRect(ctx, ox + 6, 9, 4, 2, c);
+          this.fillPixelRect(ctx, ox + 5, 11, 6, 1, c);
+          break;
+        case 1: // Three rounds: triple shot
+          for (const y of [4, 7, 10]) {
+            this.fillPixelRect(ctx, ox + 4, y, 6, 2, c);
+            this.fillPixelRect(ctx, ox + 10, y, 2, 2, '#ffdd88');
+          }
+          break;
+        case 2: // Big ring: bigger hit radius
+          this.fillPixelRect(ctx, ox + 5, 3, 6, 1, c);
+          this.fillPixelRect(ctx, ox + 5, 12, 6, 1, c);
+          this.fillPixelRect(ctx, ox + 3, 5, 1, 6, c);
+          this.fillPixelRect(ctx, ox + 12, 5, 1, 6, c);
+          this.fillPixelRect(ctx, ox + 4, 4, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 11, 4, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 4, 11, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 11, 11, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 7, 7, 2, 2, c);
+          break;
+        case 3: // x2: score doubler
+          this.fillPixelRect(ctx, ox + 3, 6, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 5, 6, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 4, 7, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 3, 8, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 5, 8, 1, 1, c);
+          this.fillPixelRect(ctx, ox + 8, 4, 4, 1, c);
+          this.fillPixelRect(ctx, ox + 11, 5, 1, 3, c);
+          this.fillPixelRect(ctx, ox + 8, 8, 4, 1, c);
+          this.fillPixelRect(ctx, ox + 8, 9, 1, 2, c);
+          this.fillPixelRect(ctx, ox + 8, 11, 4, 1, c);
+          break;
+        case 4: // Cartridges: ammo
+          for (const x of [4, 7, 10]) {
+            this.fillPixelRect(ctx, x + ox, 4, 2, 2, '#ffdd88');
+            this.fillPixelRect(ctx, x + ox, 6, 2, 6, c);
+          }
+          break;
+        case 5: // Horseshoe magnet
+          this.fillPixelRect(ctx, ox + 4, 4, 2, 6, c);
+          this.fillPixelRect(ctx, ox + 10, 4, 2, 6, c);
+          this.fillPixelRect(ctx, ox + 5, 10, 6, 2, c);
+          this.fillPixelRect(ctx, ox + 4, 3, 2, 2, '#ff6666');
+          this.fillPixelRect(ctx, ox + 10, 3, 2, 2, '#6666ff');
+          break;
+      }
+    }
+    const tex = this.textures.addCanvas('powerup', canvas)!;
+    for (let i = 0; i < shells.length; i++) tex.add(i, 0, i * fw, 0, fw, fh);
+  }
+
   private generateSpikeWallSprite(): void {
     // A tall wall of spikes spanning the full stage height
     const w = 32;
@@ -1,56 +1,150 @@
 import Phaser from 'phaser';
-import { Player } from '../objects/Player';
+import { Player, StrideFoot, LandingGrade } from '../objects/Player';
 import { Pole } from '../objects/Pole';
 import { Gun, Bullet } from '../objects/Gun';
 import { Target } from '../objects/Target';
 import { Crosshair } from '../objects/Crosshair';
-import { ScoreManager } from '../managers/ScoreManager';
-import { LevelManager, LevelConfig } from '../managers/LevelManager';
+import { Crossbar } from '../objects/Crossbar';
+import { Windsock } from '../objects/Windsock';
+import { Hazard, HazardShot, HazardType, DeathCause, HAZARD_STATS } from '../objects/Hazard';
+import { Boss, BossWeakPoint } from '../objects/Boss';
+import { PowerUp } from '../objects/PowerUp';
+import { Ghost } from '../objects/Ghost';
+import { ScoreManager, GameMode, formatRunTime } from '../managers/ScoreManager';
+import { LevelManager, LevelConfig, PracticeSettings } from '../managers/LevelManager';
+import { RandomManager } from '../managers/RandomManager';
+import { GhostManager, GhostResult, ghostKey } from '../managers/GhostManager';
 import { SoundGenerator } from '../utils/SoundGenerator';
 import { MusicEngine } from '../utils/MusicEngine';
+import { WeaponDef, WeaponId, WEAPONS, WEAPON_ORDER } from '../utils/weapons';
+import { TrickDef, TRICKS, TRICK_ORDER } from '../utils/tricks';
+import { BOSSES } from '../utils/bosses';
+import { PowerUpId, PowerUpDef, POWER_UPS, POWER_UP_ORDER } from '../utils/powerups';
 import {
   GAME_WIDTH, GAME_HEIGHT, GROUND_Y, RUNWAY_START_X, VAULT_PLANT_X,
   MIN_VAULT_ANGLE, MAX_VAULT_ANGLE, ANGLE_ADJUST_SPEED,
   TARGET_MIN_Y, TARGET_MAX_Y, TARGET_MIN_X, TARGET_MAX_X,
-  SPIKE_WALL_X,
+  SPIKE_WALL_X, VAULT_FLIGHT_MS, CROSSBAR_X,
+  STRIDE_PERFECT_WINDOW, STRIDE_GOOD_WINDOW, FOCUS_MAX, FOCUS_TIME_SCALE,
+  EXPLOSIVE_TARGET_RADIUS, TARGET_RINGS,
+  WIND_ATHLETE_ACCEL, WIND_BULLET_ACCEL, WIND_GUST_SHARE, WIND_CLOUD_DRIFT, CLOUD_BASE_DRIFT, RICOCHET_MAX_ANGLE,
+  PIT_START_X, PIT_END_X, PIT_TOP_Y, LANDING_CLEAN_VY, LANDING_ROUGH_VY, LANDING_CLEAN_TILT, LANDING_ROUGH_TILT,
+  TRICK_CHAIN_WINDOW_MS, STATION_SPACING, HAZARD_KNOCKBACK, ATHLETE_MAX_HEALTH, MAGAZINE_SIZE,
+  POWERUP_PICKUP_RADIUS, POWERUP_AIR_TIME_BONUS, POWERUP_TRIPLE_SPREAD, POWERUP_HIT_RADIUS_BONUS,
+  POWERUP_SCORE_MULT, POWERUP_MAGNET_ACCEL, PIXELS_PER_METER, ATTEMPTS_PER_LEVEL, RUN_STOP_FOUL_MS,
+  AIR_STAMINA_MAX, AIR_CONTROL_ACCEL, AIR_CONTROL_MAX_SPEED, AIR_CONTROL_RECOIL_LOCK_MS, TIME_ATTACK_LEVELS, HOTSEAT_ROUNDS,
+  TIME_ATTACK_MISS_PENALTY_MS,
 } from '../utils/constants';
 
-type GamePhase = 'ready' | 'running' | 'planting' | 'vaulting' | 'airborne' | 'shooting' | 'landing' | 'results';
+type GamePhase = 'loadout' | 'ready' | 'running' | 'planting' | 'vaulting' | 'airborne' | 'shooting' | 'landing' | 'results';
 
 export class GameScene extends Phaser.Scene {
   // Game mode
-  private gameMode: 'level' | 'arcade' = 'level';
+  private gameMode: GameMode = 'level';
+  private daily?: string; // daily challenge date (arcade rules on the day's seed)
+  private practice?: PracticeSettings; // practice range setup; runs never reach the ScoreScene
+  private practiceRerun: boolean = false; // instant retry: skip the loadout, same weapon as last time
   
   // Objects
   private player!: Player;
   private pole!: Pole;
   private gun!: Gun;
   private crosshair!: Crosshair;
+  private windsock!: Windsock;
   private bullets: Bullet[] = [];
   private targets: Target[] = [];
 
   // Background
   private bgElements: Phaser.GameObjects.GameObject[] = [];
+
+  // Course: each station is a plant box, crossbar, pit and target cluster, STATION_SPACING apart
+  private stationCount: number = 1;
+  private station: number = 0;       // the one being run at / vaulted
+  private stageWidth: number = GAME_WIDTH * 2;
+  private spikeWallX: number = SPIKE_WALL_X;
+  private crossbars: Crossbar[] = [];
+  private landingPits: Phaser.GameObjects.TileSprite[] = [];
+  private stationTargets: Target[][] = [];
   private clouds: Phaser.GameObjects.Sprite[] = [];
 
   // UI
   private uiContainer!: Phaser.GameObjects.Container;
   private scoreText!: Phaser.GameObjects.Text;
   private levelText!: Phaser.GameObjects.Text;
+  private livesText?: Phaser.GameObjects.Text;
+  private attemptsText?: Phaser.GameObjects.Text;
+  private clockText?: Phaser.GameObjects.Text;
+  private practiceText?: Phaser.GameObjects.Text;
+  private launchVelocity?: { vx: number; vy: number }; // last pole launch, for the practice readout
+  private ghost?: Ghost;              // best recorded run on this level, replayed alongside
+  private ghostClock: number = 0;     // game time since the loadout was confirmed; ghosts record and replay on it
+  private ghostStartScore: number = 0;
+  private ghostStartTimeMs: number = 0;   // time attack clock when the attempt started
   private ammoText!: Phaser.GameObjects.Text;
   private comboText!: Phaser.GameObjects.Text;
+  private styleText!: Phaser.GameObjects.Text;
+  private windText!: Phaser.GameObjects.Text;
   private timerText!: Phaser.GameObjects.Text;
   private angleIndicator!: Phaser.GameObjects.Graphics;
   private powerBar!: Phaser.GameObjects.Graphics;
+  private strideMeter!: Phaser.GameObjects.Graphics;
+  private focusBar!: Phaser.GameObjects.Graphics;
+  private staminaBar!: Phaser.GameObjects.Graphics;
+  private healthBar!: Phaser.GameObjects.Graphics;
+  private bossBar!: Phaser.GameObjects.Graphics;
+  private bossText!: Phaser.GameObjects.Text;
   private instructionText!: Phaser.GameObjects.Text;
+  private loadoutPanel?: Phaser.GameObjects.Container;
+  private loadoutRows: Phaser.GameObjects.Text[] = [];
 
   // State
-  private phase: GamePhase = 'ready';
+  private phase: GamePhase = 'loadout';
   private airTimer: number = 0;
   private maxAirTime: number = 3.0;
+  private airStamina: number = AIR_STAMINA_MAX; // seconds of A/D steering left this airborne window
+  private airControlLockMs: number = 0;         // world ms until steering recovers from the last recoil kick
   private currentLevelConfig!: LevelConfig;
   private vaultPeakHeight: number = 0;
   private cameraFollowing: boolean = false;
+  private poleRideStart = { x: 0, y: 0, time: 0 };
+  private runStoppedMs: number = -1; // how long the run-up has been at a standstill; -1 until it gets going
+
+  // Weapon
+  private weapon: WeaponDef = WEAPONS.pistol;
+  private loadoutIndex: number = 0;
+  private nextShotId: number = 0;
+  // Projectiles still in flight per trigger pull, and whether any of them hit
+  private shots: Map<number, { live: number; hit: boolean }> = new Map();
+
+  // Wind (m/s, positive blows toward the landing pit)
+  private windBase: number = 0;   // steady wind rolled for this attempt
+  private windGust: number = 0;   // gust amplitude on top of it
+  private windTime: number = 0;
+  private windSpeed: number = 0;  // current wind, gusts included
+  private windCarry: number = 0;  // push collected while riding the pole, released at launch
+
+  // Air hazards
+  private hazards: Hazard[] = [];
+  private hazardShots: HazardShot[] = [];
+  private hazardQueue: { type: HazardType; at: number }[] = []; // release times, in seconds of air time
+
+  // Boss stage (carried across all the stations until it's brought down)
+  private boss?: Boss;
+
+  // Power-ups
+  private powerUps: PowerUp[] = [];
+  private powerUpTimers: Map<PowerUpId, number> = new Map(); // ms left on timed power-ups (only runs down in the air)
+  private powerUpIcons: Map<PowerUpId, { icon: Phaser.GameObjects.Sprite; text: Phaser.GameObjects.Text }> = new Map();
+
+  // Mid-air tricks
+  private trickKeys: { trick: TrickDef; key: Phaser.Input.Keyboard.Key }[] = [];
+  private trickGap: number = Infinity; // world ms since the last trick finished
+  private trickChained: boolean = false;
+
+  // Focus (bullet time)
+  private focusActive: boolean = false;
+  private worldTimeScale: number = 1;
+  private focusFx?: Phaser.FX.ColorMatrix;
 
   // Input
   private wKey!: Phaser.Input.Keyboard.Key;
@@ -60,9 +154,15 @@ export class GameScene extends Phaser.Scene {
   private spaceKey!: Phaser.Input.Keyboard.Key;
   private escKey!: Phaser.Input.Keyboard.Key;
   private mKey!: Phaser.Input.Keyboard.Key;
+  private rKey!: Phaser.Input.Keyboard.Key;
+  private tKey!: Phaser.Input.Keyboard.Key;
+  private enterKey!: Phaser.Input.Keyboard.Key;
+  private shiftKey!: Phaser.Input.Keyboard.Key;
 
   // Managers
   private scoreManager!: ScoreManager;
+  private rng!: RandomManager;
+  private ghosts!: GhostManager;
   private levelManager!: LevelManager;
 
   // Spike wall
@@ -82,15 +182,33 @@ export class GameScene extends Phaser.Scene {
     SoundGenerator.getInstance().play(key, volume);
   }
 
-  init(data: { mode?: 'level' | 'arcade'; level?: number }): void {
+  init(data: {
+    mode?: GameMode; level?: number; retry?: boolean; attempt?: boolean; daily?: string; practice?: PracticeSettings;
+  }): void {
     this.gameMode = data.mode || 'level';
+    this.daily = data.daily;
+    this.practice = data.practice;
+    this.practiceRerun = !!data.practice && !!data.retry;
     this.scoreManager = ScoreManager.getInstance();
     this.levelManager = LevelManager.getInstance();
+    this.rng = RandomManager.getInstance();
+    this.ghosts = GhostManager.getInstance();
     
-    if (!data.level || data.level === 1) {
+    // A retry continues the current run (arcade lives, score) instead of starting over; practice
+    // and every hot-seat turn start clean
+    if (this.gameMode === 'hotseat') {
+      // The seed was rolled for the whole hot-seat game, so everyone in a round gets the same layout
       this.scoreManager.reset();
-    } else {
-      this.scoreManager.currentLevel = data.level;
+    } else if (this.practice || (!data.retry && (!data.level || data.level === 1))) {
+      this.scoreManager.reset();
+      // The daily challenge deals everyone the same stages
+      this.rng.newRun(this.daily ? `daily-${this.daily}` : undefined);
+    }
+    this.scoreManager.currentLevel = data.level || 1;
+    this.rng.startStage(this.scoreManager.currentLevel);
+    // Another attempt at the same level keeps its attempt record
+    if (!data.attempt) {
+      this.scoreManager.startLevelAttempts();
     }
 
     // Always reset per-level stats
@@ -98,25 +216,58 @@ export class GameScene extends Phaser.Scene {
     this.scoreManager.totalTargets = 0;
     this.scoreManager.combo = 0;
     this.scoreManager.maxCombo = 0;
+    this.scoreManager.resetBar();
+    this.scoreManager.landingGrade = null;
+    this.scoreManager.resetStyle();
+    this.scoreManager.scoreBoost = 1;
 
-    this.phase = 'ready';
+    this.phase = 'loadout';
     this.targets = [];
     this.bullets = [];
+    this.shots.clear();
+    this.loadoutRows = [];
+    this.focusActive = false;
+    this.focusFx = undefined;
+    this.trickGap = Infinity;
+    this.trickChained = false;
+    this.station = 0;
+    this.crossbars = [];
+    this.landingPits = [];
+    this.stationTargets = [];
+    this.hazards = [];
+    this.hazardShots = [];
+    this.hazardQueue = [];
+    this.boss = undefined;
+    this.powerUps = [];
+    this.powerUpTimers.clear();
+    this.powerUpIcons.clear();
     this.bgElements = [];
     this.clouds = [];
     this.isDead = false;
+    this.runStoppedMs = -1;
+    this.launchVelocity = undefined;
+    this.ghost = undefined;
+    this.ghostClock = 0;
   }
 
   create(): void {
     // Setup level config
     const level = this.scoreManager.currentLevel;
-    if (this.gameMode === 'level') {
-      this.currentLevelConfig = this.levelManager.getLevelConfig(level);
-    } else {
+    if (this.practice) {
+      this.currentLevelConfig = this.levelManager.getPracticeConfig(this.practice);
+    } else if (this.gameMode === 'arcade') {
       this.currentLevelConfig = this.levelManager.getArcadeConfig(level);
+    } else {
+      this.currentLevelConfig = this.levelManager.getLevelConfig(level);
     }
     this.maxAirTime = this.currentLevelConfig.airTime;
+    this.stationCount = this.currentLevelConfig.stations ?? 1;
+    this.stageWidth = GAME_WIDTH * 2 + (this.stationCount - 1) * STATION_SPACING;
+    this.spikeWallX = this.practice && !this.practice.spikeWall
+      ? Infinity
+      : SPIKE_WALL_X + (this.stationCount - 1) * STATION_SPACING;
     this.player?.destroy();
+    this.rollWind();
 
     // Input (WASD)
     this.wKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.W);
@@ -126,14 +277,27 @@ export class GameScene extends Phaser.Scene {
     this.spaceKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE);
     this.escKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
     this.mKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.M);
+    this.rKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.R);
+    this.tKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.T);
+    this.enterKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER);
+    this.shiftKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.SHIFT);
+    this.trickKeys = TRICK_ORDER.map(id => ({
+      trick: TRICKS[id],
+      key: this.input.keyboard!.addKey(TRICKS[id].key),
+    }));
+
+    // Start game music (boss stages get their own theme)
+    MusicEngine.getInstance().play(this.currentLevelConfig.boss ? 'boss' : 'game');
 
-    // Start game music
-    MusicEngine.getInstance().play('game');
+    // Clocks are shared with the previous attempt, so undo any leftover slow motion
+    this.applyTimeScale(1);
 
     // Build the scene
     this.createBackground();
     this.createGround();
     this.createPlayer();
+    this.player.loadAmmo(this.currentLevelConfig.ammo);
+    this.createGhost();
     this.createPole();
     this.createGun();
     this.createCrosshair();
@@ -141,28 +305,45 @@ export class GameScene extends Phaser.Scene {
     this.createUI();
     this.createParticles();
 
-    // Spike wall
-    this.createSpikeWall();
+    // Spike wall (unless practice has it switched off)
+    if (Number.isFinite(this.spikeWallX)) {
+      this.createSpikeWall();
+    }
 
     // Extend physics world to match the full stage width
-    this.physics.world.setBounds(0, 0, GAME_WIDTH * 2, GAME_HEIGHT);
+    this.physics.world.setBounds(0, 0, this.stageWidth, GAME_HEIGHT);
 
     // Camera
-    this.cameras.main.setBounds(0, 0, GAME_WIDTH * 2, GAME_HEIGHT);
+    this.cameras.main.setBounds(0, 0, this.stageWidth, GAME_HEIGHT);
     this.cameras.main.setScroll(0, 0);
     this.cameras.main.fadeIn(300, 0, 0, 0);
 
-    // Set instruction
-    this.showInstruction('Hold D to run!');
+    // Pick a weapon before the run (remembers the last choice; a practice rerun goes straight to the runway)
+    this.showLoadout();
+    if (this.practiceRerun) this.confirmLoadout();
 
     // Spawn targets for this level (but keep them hidden until airborne)
     this.spawnTargets();
+    this.spawnPowerUps();
+
+    // The boss waits past the first crossbar from the start
+    if (this.currentLevelConfig.boss) {
+      const def = BOSSES[this.currentLevelConfig.boss];
+      this.boss = new Boss(this, this.stationX(0) + def.anchorX, def);
+    }
   }
 
   update(time: number, delta: number): void {
-    // ESC to pause / go to menu
+    // ESC to pause / go to menu (practice goes back to its setup)
     if (Phaser.Input.Keyboard.JustDown(this.escKey)) {
-      this.scene.start('MenuScene');
+      if (this.practice) this.scene.start('PracticeScene', { settings: this.practice });
+      else this.scene.start('MenuScene');
+      return;
+    }
+
+    // Practice: T restarts the run on the spot
+    if (this.practice && Phaser.Input.Keyboard.JustDown(this.tKey)) {
+      this.restartPractice();
       return;
     }
 
@@ -171,13 +352,28 @@ export class GameScene extends Phaser.Scene {
       MusicEngine.getInstance().toggleMute();
     }
 
-    // Update clouds
+    // Time attack: the run clock is real time from the loadout until the attempt is over
+    if (this.gameMode === 'timeattack' && this.phase !== 'loadout' && this.phase !== 'results') {
+      this.scoreManager.runTimeMs += delta;
+    }
+
+    // Bullet time: everything in the game world advances by worldDelta
+    this.updateFocus(delta);
+    const worldDelta = delta * this.worldTimeScale;
+
+    this.updateWind(worldDelta);
+
+    // Update clouds (a slow drift of their own, plus the wind)
     this.clouds.forEach(cloud => {
-      cloud.x -= 0.2;
-      if (cloud.x < -60) cloud.x = GAME_WIDTH * 2 + 60;
+      cloud.x += (CLOUD_BASE_DRIFT + this.windSpeed * WIND_CLOUD_DRIFT) * this.worldTimeScale;
+      if (cloud.x < -60) cloud.x = this.stageWidth + 60;
+      else if (cloud.x > this.stageWidth + 60) cloud.x = -60;
     });
 
     switch (this.phase) {
+      case 'loadout':
+        this.updateLoadout();
+        break;
       case 'ready':
         this.updateReady(delta);
         break;
@@ -192,7 +388,7 @@ export class GameScene extends Phaser.Scene {
         break;
       case 'airborne':
       case 'shooting':
-        this.updateAirborne(delta);
+        this.updateAirborne(worldDelta);
         break;
       case 'landing':
         this.updateLanding(delta);
@@ -201,33 +397,64 @@ export class GameScene extends Phaser.Scene {
         break;
     }
 
+    // Ghost run: record this attempt and replay the best one on the same clock
+    if (this.phase !== 'loadout' && this.phase !== 'results') {
+      this.ghostClock += worldDelta;
+      this.ghosts.sample(this.ghostClock, this.player.x, this.player.y, Number(this.player.frame.name), this.player.angle);
+      this.ghost?.updateGhost(this.ghostClock, worldDelta);
+    }
+
     // Check spike wall collision — runs every frame, any phase
-    if (!this.isDead && this.phase !== 'ready' && this.phase !== 'results') {
-      if (this.player.x >= SPIKE_WALL_X - 16) {
-        this.triggerSpikeDeath();
+    if (!this.isDead && this.phase !== 'loadout' && this.phase !== 'ready' && this.phase !== 'results') {
+      if (this.player.x >= this.spikeWallX - 16) {
+        this.triggerDeath('spikes');
         return;
       }
     }
 
+    // Crossbar: test the athlete's body against the bar until the jump is decided
+    if (this.phase === 'vaulting' || this.phase === 'airborne' || this.phase === 'shooting') {
+      this.checkCrossbar();
+    }
+    this.crossbars.forEach(bar => bar.updateBar());
+
     // Update player animation
-    this.player.updatePlayer(delta);
+    this.player.updatePlayer(worldDelta);
 
     // Update bullets and check collisions
     this.bullets.forEach(bullet => {
-      if (bullet.isActive) {
-        // Remove bullets that leave the screen
-        if (bullet.x < -20 || bullet.x > GAME_WIDTH * 2 + 20 || bullet.y < -20 || bullet.y > GAME_HEIGHT + 20) {
-          bullet.deactivate();
-          this.scoreManager.registerMiss();
-        } else {
-          // Check bullet-target collisions continuously
-          this.checkBulletTargetHit(bullet);
-        }
+      if (!bullet.isActive) return;
+
+      // Surfaces first (may bounce or stop the bullet), so a round that just reached the
+      // spike wall bounces off it before it can count as gone
+      this.checkBulletSurfaces(bullet);
+      if (!bullet.isActive) return;
+
+      // Expire bullets that have really left play: off either end (the spike wall stands past
+      // the stage edge), below the stage, or off the top with no drop to bring them back.
+      // Pellets also run out of range.
+      const farEdge = Number.isFinite(this.spikeWallX) ? Math.max(this.spikeWallX, this.stageWidth) : this.stageWidth;
+      const gone = bullet.x < -20 || bullet.x > farEdge + 20 || bullet.y > GAME_HEIGHT + 20
+        || bullet.y < (bullet.weapon.gravity > 0 ? -600 : -20);
+      if (gone || bullet.updateLifespan(worldDelta)) {
+        this.retireBullet(bullet);
+        return;
       }
+
+      bullet.applyForces(this.windSpeed * WIND_BULLET_ACCEL, worldDelta);
+      // Then whatever the path reaches first: a hazard only takes the round if no target is
+      // nearer along it. A round piercing its targets can still strike a hazard behind them.
+      this.checkBulletHazardHit(bullet, this.targetCrossings(bullet)[0]?.t ?? Infinity);
+      this.checkBulletBossHit(bullet);
+      this.checkBulletTargetHit(bullet);
+      this.checkBulletHazardHit(bullet);
     });
 
     // Update targets
-    // Targets are static, no per-frame update needed
+    this.targets.forEach(target => target.updateMotion(worldDelta));
+    this.updateHazards(worldDelta);
+    this.updateBoss(worldDelta);
+    this.updatePowerUps(worldDelta);
 
     // Always update crosshair to follow mouse
     this.crosshair.updatePosition(this.input.activePointer);
@@ -238,26 +465,135 @@ export class GameScene extends Phaser.Scene {
 
   // ─── Phase Updates ────────────────────────────────
 
+  private showLoadout(): void {
+    const lastWeapon = this.registry.get('weapon') as WeaponId | undefined;
+    this.loadoutIndex = Math.max(0, WEAPON_ORDER.indexOf(lastWeapon ?? 'pistol'));
+
+    const panelH = 60 + WEAPON_ORDER.length * 26;
+    const bg = this.add.rectangle(0, 0, 360, panelH, 0x000000, 0.75).setStrokeStyle(2, 0xf0e68c);
+    const title = this.add.text(0, -panelH / 2 + 16, 'CHOOSE YOUR WEAPON', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '12px',
+      color: '#f0e68c',
+    }).setOrigin(0.5, 0.5);
+    this.loadoutPanel = this.add.container(GAME_WIDTH / 2, GAME_HEIGHT / 2 - 20, [bg, title]);
+    this.loadoutPanel.setScrollFactor(0).setDepth(80);
+
+    this.loadoutRows = WEAPON_ORDER.map((id, i) => {
+      const weapon = WEAPONS[id];
+      const row = this.add.text(-160, -panelH / 2 + 42 + i * 26, `${weapon.name}\n${weapon.description}`, {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '8px',
+        color: '#ffffff',
+        lineSpacing: 4,
+      }).setInteractive({ useHandCursor: true });
+      row.on('pointerover', () => {
+        this.loadoutIndex = i;
+        this.refreshLoadout();
+      });
+      row.on('pointerdown', () => this.confirmLoadout());
+      this.loadoutPanel!.add(row);
+      return row;
+    });
+    this.refreshLoadout();
+
+    this.showInstruction('W/S to choose, SPACE to confirm');
+  }
+
+  private refreshLoadout(): void {
+    this.loadoutRows.forEach((row, i) => {
+      const selected = i === this.loadoutIndex;
+      const weapon = WEAPONS[WEAPON_ORDER[i]];
+      row.setText(`${selected ? '> ' : '  '}${weapon.name}\n  ${weapon.description}`);
+      row.setColor(selected ? '#ffdd44' : '#888888');
+    });
+  }
+
+  private updateLoadout(): void {
+    const count = WEAPON_ORDER.length;
+    if (Phaser.Input.Keyboard.JustDown(this.wKey)) {
+      this.loadoutIndex = (this.loadoutIndex - 1 + count) % count;
+      this.playSound('sfx_select', 0.3);
+      this.refreshLoadout();
+    }
+    if (Phaser.Input.Keyboard.JustDown(this.sKey)) {
+      this.loadoutIndex = (this.loadoutIndex + 1) % count;
+      this.playSound('sfx_select', 0.3);
+      this.refreshLoadout();
+    }
+    if (Phaser.Input.Keyboard.JustDown(this.spaceKey) || Phaser.Input.Keyboard.JustDown(this.enterKey)) {
+      this.confirmLoadout();
+    }
+  }
+
+  private confirmLoadout(): void {
+    if (this.phase !== 'loadout') return;
+    const id = WEAPON_ORDER[this.loadoutIndex];
+    this.weapon = WEAPONS[id];
+    this.registry.set('weapon', id);
+    this.gun.setWeapon(this.weapon);
+    this.playSound('sfx_select', 0.5);
+
+    this.loadoutPanel?.destroy();
+    this.loadoutPanel = undefined;
+    this.loadoutRows = [];
+
+    this.phase = 'ready';
+    this.showInstruction('Press A and D in turn to run!');
+
+    // The attempt (and its ghost recording) starts now
+    if (this.hasGhosts()) this.ghosts.startRecording();
+    else this.ghosts.cancelRecording();
+    this.ghostStartScore = this.scoreManager.currentScore;
+    this.ghostStartTimeMs = this.scoreManager.runTimeMs;
+  }
+
   private updateReady(delta: number): void {
-    if (this.dKey.isDown) {
+    const foot = this.readStrideKey();
+    if (foot) {
       this.phase = 'running';
       this.player.setState('running');
+      this.player.stride(foot, this.time.now);
       // Show pole held horizontally as the player starts running
       this.pole.startCarrying();
-      this.showInstruction('Build speed! Press SPACE at the marker to plant pole.');
+      this.showInstruction('Alternate A/D in rhythm! SPACE at the marker to plant.');
     }
   }
 
+  /** A = left foot, D = right foot */
+  private readStrideKey(): StrideFoot | null {
+    if (Phaser.Input.Keyboard.JustDown(this.aKey)) return 'left';
+    if (Phaser.Input.Keyboard.JustDown(this.dKey)) return 'right';
+    return null;
+  }
+
   private updateRunning(delta: number): void {
-    // Accelerate while holding D
-    if (this.dKey.isDown) {
-      this.player.accelerate(delta);
+    // Strides build speed; friction bleeds it off between them
+    this.player.updateRun(delta);
+    const foot = this.readStrideKey();
+    if (foot) {
+      const result = this.player.stride(foot, this.time.now);
+      if (result === 'stumble') {
+        this.playSound('sfx_empty', 0.5);
+        this.showFloatingText(this.player.x, this.player.y - 72, 'STUMBLE!', '#ff4444');
+      } else if (result === 'perfect') {
+        this.playSound('sfx_select', 0.15);
+      }
     }
+    this.updateStrideMeter();
 
     // Move player
     const body = this.player.body as Phaser.Physics.Arcade.Body;
     body.setVelocityX(this.player.runSpeed);
 
+    // Level mode: pulling up mid run-up is a foul
+    if (this.player.runSpeed > 0) this.runStoppedMs = 0;
+    else if (this.runStoppedMs >= 0) this.runStoppedMs += delta;
+    if (this.gameMode === 'level' && this.runStoppedMs >= RUN_STOP_FOUL_MS) {
+      this.callFoul('RUN STOPPED');
+      return;
+    }
+
     // Camera follow
     if (this.player.x > GAME_WIDTH / 3) {
       this.cameras.main.scrollX = this.player.x - GAME_WIDTH / 3;
@@ -273,11 +609,32 @@ export class GameScene extends Phaser.Scene {
       this.dustEmitter.emitParticle(1);
     }
 
-    // Check if player is within the vault zone and presses space
-    if (Phaser.Input.Keyboard.JustDown(this.spaceKey) && this.player.x >= VAULT_PLANT_X - 60 && this.player.x <= VAULT_PLANT_X + 80) {
+    // Ran straight past this station's box: its targets are lost, on to the next one
+    const plantX = VAULT_PLANT_X + this.stationX(this.station);
+    if (this.player.x > plantX + 80 && this.station < this.stationCount - 1) {
+      this.showFloatingText(this.player.x, this.player.y - 72, 'NO PLANT!', '#ff4444');
+      this.advanceStation();
+      return;
+    }
+
+    // Check if player is within the vault zone and presses space (level mode: planting anywhere else is a foul)
+    const planted = Phaser.Input.Keyboard.JustDown(this.spaceKey);
+    const inBox = this.player.x >= plantX - 60 && this.player.x <= plantX + 80;
+    if (planted && !inBox && this.gameMode === 'level') {
+      this.callFoul('PLANTED OUTSIDE THE BOX');
+      return;
+    }
+    if (planted && inBox) {
       this.phase = 'planting';
       this.player.setState('planting');
       this.player.startPowerCharge();
+      this.strideMeter.setVisible(false);
+
+      // Clean final strides into the box drive harder into the pole
+      const penultimate = this.player.commitPenultimate(this.time.now);
+      if (penultimate > 0) {
+        this.showFloatingText(this.player.x, this.player.y - 72, `PENULTIMATE +${Math.round(penultimate * 100)}%`, '#44ff44');
+      }
       
       // Plant the pole (animates from horizontal carry to vertical planted)
       this.pole.plant(this.player.x + 20);
@@ -324,48 +681,65 @@ export class GameScene extends Phaser.Scene {
     this.phase = 'vaulting';
     this.player.setState('vaulting');
 
-    const velocity = this.player.getVaultVelocity();
+    // Athlete hangs on the pole while it flexes; physics takes over at recoil
     const body = this.player.body as Phaser.Physics.Arcade.Body;
-    body.setVelocity(velocity.vx, velocity.vy);
-    body.setAllowGravity(true);
-    this.playSound('sfx_launch', 0.6);
+    body.setVelocity(0, 0);
+    body.setAllowGravity(false);
+    this.poleRideStart = { x: this.player.x, y: this.player.y, time: 0 };
+    this.pole.startVault(this.player.vaultAngle, this.player.getPoleLoad());
 
     // Hide angle/power indicators
     this.angleIndicator.setVisible(false);
     this.powerBar.setVisible(false);
+  }
 
-    // Vault spin animation — full backward rotation over the bar
+  /** The pole has straightened: fling the athlete with the recoil velocity */
+  private launchFromPole(): void {
+    const velocity = this.pole.getLaunchVelocity(this.player.vaultAngle);
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    body.setVelocity(velocity.vx + this.windCarry, velocity.vy);
+    this.launchVelocity = { vx: velocity.vx + this.windCarry, vy: velocity.vy };
+    body.setAllowGravity(true);
+    this.pole.release();
+    this.playSound('sfx_launch', 0.6);
+
+    // Vault spin animation — backward rotation over the bar
     this.tweens.add({
       targets: this.player,
       rotation: -Math.PI * 2,
-      duration: 700,
-      ease: 'Cubic.easeInOut',
+      duration: VAULT_FLIGHT_MS,
+      ease: 'Cubic.easeOut',
     });
 
-    // Extended vaulting phase with animation, then release pole
-    this.time.delayedCall(700, () => {
+    // Brief free flight with full gravity, then the airborne window opens
+    this.time.delayedCall(VAULT_FLIGHT_MS, () => {
       if (this.phase === 'vaulting') {
-        this.pole.release();
         this.player.setRotation(0); // reset rotation for shooting phase
         this.phase = 'airborne';
         this.player.setState('airborne');
         this.airTimer = 0;
+        this.maxAirTime = this.currentLevelConfig.airTime; // extra time only lasts one window
+        this.airStamina = AIR_STAMINA_MAX;
+        this.airControlLockMs = 0;
         this.vaultPeakHeight = 0;
         this.playSound('sfx_whoosh', 0.5);
 
-        // Show targets
-        this.targets.forEach(t => t.setVisible(true));
+        // Show this station's targets and line up its threats
+        this.stationTargets[this.station].forEach(t => t.setVisible(true));
+        this.queueHazards();
 
         // Transition to shooting after a brief moment
         this.time.delayedCall(300, () => {
           if (this.phase === 'airborne') {
             this.phase = 'shooting';
-            this.player.setState('shooting');
-            this.player.ammo = this.currentLevelConfig.ammo;
-            this.player.maxAmmo = this.currentLevelConfig.ammo;
-            this.gun.show();
+            // A trick already under way finishes first (completeTrick brings the gun out)
+            if (!this.player.isTricking) {
+              this.player.setState('shooting');
+              this.gun.show();
+            }
             this.crosshair.show();
-            this.showInstruction('AIM with mouse, CLICK to shoot!');
+            const trickKeys = TRICK_ORDER.map(id => TRICKS[id].key).join('/');
+            this.showInstruction(`AIM + CLICK to shoot | R reload | SHIFT slow-mo | ${trickKeys} tricks | A/D steer`);
           }
         });
       }
@@ -373,8 +747,32 @@ export class GameScene extends Phaser.Scene {
   }
 
   private updateVaulting(delta: number): void {
-    // Pole bends and launches player
-    this.pole.updatePole(this.player.x, this.player.y, true);
+    // Pole bends, stores the run-up energy and launches the player
+    if (this.pole.isRiding) {
+      const ride = this.pole.updateVault(delta);
+
+      // Hands at the pole tip; ease in from the standing position over the first moments
+      this.poleRideStart.time += delta;
+      const blend = Phaser.Math.Easing.Quadratic.Out(Math.min(this.poleRideStart.time / 120, 1));
+      const feetX = ride.handX - 6;
+      const feetY = ride.handY + 34;
+      this.player.setPosition(
+        Phaser.Math.Linear(this.poleRideStart.x, feetX, blend),
+        Phaser.Math.Linear(this.poleRideStart.y, feetY, blend)
+      );
+      // Lean with the pole
+      this.player.setRotation(Phaser.Math.DegToRad(-30) * this.pole.bendAmount);
+
+      // Wind leans on the athlete while they hang on the pole
+      this.windCarry += this.windSpeed * WIND_ATHLETE_ACCEL * delta / 1000;
+
+      if (ride.recoiled) {
+        this.launchFromPole();
+      }
+    } else {
+      // Free flight after the pole lets go
+      this.applyWindToAthlete(delta);
+    }
 
     // Track peak height
     const height = GROUND_Y - this.player.y;
@@ -386,12 +784,19 @@ export class GameScene extends Phaser.Scene {
     this.cameras.main.scrollX = Math.max(0, this.player.x - GAME_WIDTH / 3);
   }
 
+  /** delta here is world time, already slowed while focusing */
   private updateAirborne(delta: number): void {
     const body = this.player.body as Phaser.Physics.Arcade.Body;
 
     // Track air time
     this.airTimer += delta / 1000;
 
+    this.applyWindToAthlete(delta);
+    this.applyAirControl(delta);
+    if (this.hasPowerUp('magnet')) {
+      this.applyMagnet(delta);
+    }
+
     // Track peak height
     const height = GROUND_Y - this.player.y;
     if (height > this.vaultPeakHeight) {
@@ -405,6 +810,8 @@ export class GameScene extends Phaser.Scene {
     const targetScrollX = Math.max(0, this.player.x - GAME_WIDTH / 3);
     this.cameras.main.scrollX += (targetScrollX - this.cameras.main.scrollX) * 0.1;
 
+    this.updateTricks(delta);
+
     // Aiming and shooting
     if (this.phase === 'shooting') {
       const pointer = this.input.activePointer;
@@ -418,153 +825,1062 @@ export class GameScene extends Phaser.Scene {
       const gunAngle = this.gun.aimAt(aimWorldX, aimWorldY);
       this.gun.setPosition(this.player.x + 8, this.player.y - 30);
 
-      // Fire on mouse click (with cooldown)
-      if (pointer.isDown && this.canShoot()) {
+      // Reload from reserve (takes RELOAD_TIME, no shooting meanwhile)
+      if (Phaser.Input.Keyboard.JustDown(this.rKey) && this.player.startReload()) {
+        this.playSound('sfx_reload', 0.5);
+      }
+      this.player.updateReload(delta);
+
+      // Fire on mouse click (with cooldown); no shooting mid-trick
+      if (pointer.isDown && this.canShoot() && !this.player.isTricking) {
         this.fireGun(gunAngle);
       }
     }
 
-    // Check if air time is up or player hits ground
-    if (this.airTimer >= this.maxAirTime || this.player.y >= GROUND_Y) {
-      this.startLanding();
-    }
+    // Check if air time is up or player hits ground
+    const timeUp = this.airTimer >= this.maxAirTime && !this.practice?.unlimitedAir;
+    if (timeUp || this.player.y >= this.getLandingSurfaceY(this.player.x)) {
+      this.startLanding();
+    }
+  }
+
+  /** Trick keys while airborne. Starting the next trick soon after the last one finishes chains them. */
+  private updateTricks(delta: number): void {
+    const done = this.player.updateTrick(delta);
+    if (done) {
+      this.completeTrick(done);
+    } else if (!this.player.isTricking) {
+      this.trickGap += delta;
+    }
+
+    if (this.phase !== 'airborne' && this.phase !== 'shooting') return;
+    for (const { trick, key } of this.trickKeys) {
+      if (Phaser.Input.Keyboard.JustDown(key) && this.player.startTrick(trick)) {
+        this.trickChained = this.trickGap <= TRICK_CHAIN_WINDOW_MS;
+        this.gun.hide();
+        this.playSound('sfx_trick', 0.5);
+        break;
+      }
+    }
+  }
+
+  private completeTrick(trick: TrickDef): void {
+    const points = this.scoreManager.registerTrick(trick, this.trickChained);
+    const chain = this.scoreManager.trickChain;
+    this.trickGap = 0;
+
+    const label = chain > 1 ? `${trick.name} x${chain}` : trick.name;
+    this.showFloatingText(this.player.x, this.player.y - 80, `${label} +${points}`, '#66ddff');
+    this.playSound(chain > 1 ? 'sfx_combo' : 'sfx_select', 0.4);
+
+    // Back to whatever the athlete was doing
+    if (this.phase === 'shooting') {
+      this.player.setState('shooting');
+      this.gun.show();
+    } else if (this.phase === 'airborne') {
+      this.player.setState('airborne');
+    } else {
+      this.player.setState('landing');
+    }
+  }
+
+  private rollWind(): void {
+    const max = this.currentLevelConfig.wind ?? 0;
+    this.windBase = this.rng.stream('wind').realInRange(-max, max);
+    this.windGust = max * WIND_GUST_SHARE;
+    this.windTime = 0;
+    this.windSpeed = this.windBase;
+    this.windCarry = 0;
+  }
+
+  private updateWind(delta: number): void {
+    this.windTime += delta / 1000;
+    // Two detuned swells make for irregular gusts
+    const t = this.windTime;
+    const gust = Math.sin(t * 1.3) * 0.6 + Math.sin(t * 3.1 + 1) * 0.4;
+    this.windSpeed = this.windBase + this.windGust * gust;
+    this.windsock.setWind(this.windSpeed, delta);
+  }
+
+  private applyWindToAthlete(delta: number): void {
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    body.setVelocityX(body.velocity.x + this.windSpeed * WIND_ATHLETE_ACCEL * delta / 1000);
+  }
+
+  /**
+   * A/D nudges the athlete sideways while stamina lasts. Steering tops out well below
+   * launch speed, so it mostly brakes or holds position rather than adding range.
+   */
+  private applyAirControl(delta: number): void {
+    this.airControlLockMs = Math.max(0, this.airControlLockMs - delta);
+    const dir = (this.dKey.isDown ? 1 : 0) - (this.aKey.isDown ? 1 : 0);
+    if (dir === 0 || this.airStamina <= 0 || this.airControlLockMs > 0) return;
+
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    const vx = body.velocity.x;
+    if (vx * dir >= AIR_CONTROL_MAX_SPEED) return;
+    const dv = AIR_CONTROL_ACCEL * delta / 1000;
+    body.setVelocityX(dir > 0 ? Math.min(vx + dv, AIR_CONTROL_MAX_SPEED) : Math.max(vx - dv, -AIR_CONTROL_MAX_SPEED));
+    this.airStamina = Math.max(0, this.airStamina - delta / 1000);
+  }
+
+  /** Hold SHIFT while airborne to spend focus on slow motion */
+  private updateFocus(delta: number): void {
+    const airborne = this.phase === 'airborne' || this.phase === 'shooting';
+    let wantFocus = airborne && this.shiftKey.isDown && this.scoreManager.focus > 0;
+
+    // The meter drains in real time, however slow the world is running
+    if (wantFocus && this.focusActive) {
+      wantFocus = this.scoreManager.spendFocus(delta / 1000);
+    }
+    this.setSlowMotion(wantFocus);
+  }
+
+  private setSlowMotion(active: boolean): void {
+    if (this.focusActive === active) return;
+    this.focusActive = active;
+    this.applyTimeScale(active ? FOCUS_TIME_SCALE : 1);
+    if (active) this.playSound('sfx_whoosh', 0.4);
+  }
+
+  /** Slow physics, tweens, timers and music together so timing stays consistent */
+  private applyTimeScale(scale: number): void {
+    this.worldTimeScale = scale;
+    this.physics.world.timeScale = 1 / scale; // Arcade: larger = slower
+    this.tweens.timeScale = scale;
+    this.time.timeScale = scale;
+    MusicEngine.getInstance().setTempoScale(scale);
+
+    // Desaturate the view while focusing (WebGL only)
+    if (this.game.renderer.type !== Phaser.WEBGL) return;
+    this.focusFx ??= this.cameras.main.postFX.addColorMatrix();
+    this.focusFx.reset();
+    if (scale < 1) this.focusFx.saturate(-0.7);
+  }
+
+  private lastShotTime: number = 0;
+
+  private canShoot(): boolean {
+    const now = this.time.now;
+    return now - this.lastShotTime > this.weapon.cooldownMs;
+  }
+
+  private fireGun(angle: number): void {
+    if (!this.fireRound(angle, false)) return;
+    this.lastShotTime = this.time.now;
+
+    // Burst weapons keep firing along wherever the gun is pointing
+    for (let i = 1; i < this.weapon.burstCount; i++) {
+      this.time.delayedCall(this.weapon.burstIntervalMs * i, () => {
+        if (this.phase === 'shooting') this.fireRound(this.gun.rotation, true);
+      });
+    }
+  }
+
+  /** Fire one round of the current weapon. Returns false if nothing was fired. */
+  private fireRound(angle: number, followUp: boolean): boolean {
+    const weapon = this.weapon;
+    if (!this.player.shoot()) {
+      if (!followUp && !this.player.isReloading) this.dryFire();
+      return false;
+    }
+
+    // Triple shot fans the whole pattern out three times for the same round
+    const volleys = this.hasPowerUp('tripleshot') ? [-1, 0, 1] : [0];
+    const shotId = ++this.nextShotId;
+    this.shots.set(shotId, { live: weapon.projectiles * volleys.length, hit: false });
+
+    // Spread pellets evenly across the cone, plus a little jitter
+    const spread = Phaser.Math.DegToRad(weapon.spreadDeg);
+    const jitter = spread / Math.max(weapon.projectiles, 2);
+    for (const volley of volleys) {
+      const volleyAngle = angle + Phaser.Math.DegToRad(POWERUP_TRIPLE_SPREAD) * volley;
+      for (let i = 0; i < weapon.projectiles; i++) {
+        const offset = weapon.projectiles > 1 ? -spread / 2 + (spread * i) / (weapon.projectiles - 1) : 0;
+        const pelletAngle = volleyAngle + offset + this.rng.stream('spread').realInRange(-jitter, jitter);
+
+        // Find inactive bullet
+        let bullet = this.bullets.find(b => !b.isActive);
+        if (!bullet) {
+          bullet = new Bullet(this, 0, 0);
+          this.bullets.push(bullet);
+        }
+        bullet.fire(this.gun.x, this.gun.y, pelletAngle, weapon, shotId);
+      }
+    }
+
+    // Sound
+    this.playSound(weapon.sound, 0.5);
+    this.ghosts.recordShot(this.ghostClock, this.gun.x, this.gun.y, Phaser.Math.RadToDeg(angle));
+
+    // Muzzle flash
+    this.showMuzzleFlash(this.gun.x + Math.cos(angle) * 12, this.gun.y + Math.sin(angle) * 12);
+
+    // Shell casing
+    if (this.shellEmitter) {
+      this.shellEmitter.setPosition(this.gun.x, this.gun.y);
+      this.shellEmitter.emitParticle(1);
+    }
+
+    // Screen shake
+    this.cameras.main.shake(60, weapon.shake);
+
+    // Recoil effect on player
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    body.setVelocityX(body.velocity.x - Math.cos(angle) * weapon.recoil);
+    body.setVelocityY(body.velocity.y - Math.sin(angle) * weapon.recoil * 0.75);
+    this.airControlLockMs = AIR_CONTROL_RECOIL_LOCK_MS;
+    return true;
+  }
+
+  /** Take a projectile out of play; a trigger pull only misses once all of its projectiles are gone */
+  private retireBullet(bullet: Bullet): void {
+    bullet.deactivate();
+    const shot = this.shots.get(bullet.shotId);
+    if (!shot) return;
+    shot.live--;
+    if (shot.live <= 0) {
+      if (!shot.hit) this.scoreManager.registerMiss();
+      this.shots.delete(bullet.shotId);
+    }
+  }
+
+  /** Trigger pulled on an empty magazine */
+  private dryFire(): void {
+    // Slower repeat than live fire so holding the button doesn't spam clicks
+    this.lastShotTime = this.time.now + 250;
+    this.playSound('sfx_empty', 0.6);
+
+    const hint = this.player.reserveAmmo > 0 ? 'EMPTY! R TO RELOAD' : 'OUT OF AMMO!';
+    this.showFloatingText(this.player.x, this.player.y - 80, hint, '#ff4444');
+  }
+
+  /**
+   * Bounce the bullet off the runway, the crossbar and the spike wall when it strikes them at a
+   * shallow angle; anything steeper stops it (or sets off a launcher shell).
+   */
+  private checkBulletSurfaces(bullet: Bullet): void {
+    const body = bullet.body as Phaser.Physics.Arcade.Body;
+    const { prevX, prevY } = bullet;
+    const { x, y } = bullet;
+
+    // Horizontal surfaces: the runway, and the bar while it's still on its pegs
+    // The foam pit swallows bullets rather than bouncing them
+    const floors: { y: number; minX: number; maxX: number; soft?: boolean }[] = this.landingPits.map(pit => (
+      { y: PIT_TOP_Y, minX: pit.x, maxX: pit.x + pit.width, soft: true }
+    ));
+    floors.push({ y: GROUND_Y, minX: -Infinity, maxX: Infinity });
+    for (const bar of this.crossbars) {
+      if (bar.state === 'knocked') continue;
+      floors.push({ y: bar.getBarY(), minX: bar.x - 24, maxX: bar.x + 24 });
+    }
+    for (const floor of floors) {
+      if ((prevY - floor.y) * (y - floor.y) > 0 || prevY === y) continue;
+      const t = (floor.y - prevY) / (y - prevY);
+      const ix = prevX + (x - prevX) * t;
+      if (ix < floor.minX || ix > floor.maxX) continue;
+
+      const angle = floor.soft ? 90 : Phaser.Math.RadToDeg(Math.atan2(Math.abs(body.velocity.y), Math.abs(body.velocity.x)));
+      this.resolveImpact(bullet, 'y', ix, floor.y, angle);
+      return;
+    }
+
+    // The face of the spike wall
+    const wallX = this.spikeWallX - 16;
+    if (prevX < wallX && x >= wallX) {
+      const t = (wallX - prevX) / (x - prevX);
+      const iy = prevY + (y - prevY) * t;
+      const angle = Phaser.Math.RadToDeg(Math.atan2(Math.abs(body.velocity.x), Math.abs(body.velocity.y)));
+      this.resolveImpact(bullet, 'x', wallX, iy, angle);
+    }
+  }
+
+  private resolveImpact(bullet: Bullet, axis: 'x' | 'y', ix: number, iy: number, angleDeg: number): void {
+    if (bullet.weapon.explosionRadius > 0) {
+      bullet.setPosition(ix, iy);
+      this.detonate(bullet);
+      return;
+    }
+
+    if (angleDeg <= RICOCHET_MAX_ANGLE && bullet.canRicochet) {
+      bullet.ricochet(axis, ix, iy);
+      this.playSound('sfx_ricochet', 0.4);
+      this.showSpark(ix, iy);
+      return;
+    }
+
+    // Buried in the surface
+    bullet.setPosition(ix, iy);
+    this.showSpark(ix, iy);
+    this.retireBullet(bullet);
+  }
+
+  /** Targets the bullet's path crossed this frame, in the order it reached them */
+  private targetCrossings(bullet: Bullet): { target: Target; ring: number; dist: number; t: number; x: number; y: number }[] {
+    const radius = bullet.displayHeight / 2;
+    return this.targets
+      .filter(target => !target.isDestroyed && target.active && target.visible && !bullet.hitTargets.has(target))
+      .map(target => {
+        const approach = bullet.closestApproach(target.x, target.y);
+        const dist = Math.max(approach.dist - radius, 0);
+        let ring = target.ringAt(dist);
+        // Big hits: a near miss still clips the edge ring
+        if (ring < 0 && target.ringAt(Math.max(dist - this.hitReach, 0)) >= 0) ring = TARGET_RINGS.length - 1;
+        return { target, ...approach, ring };
+      })
+      .filter(crossing => crossing.ring >= 0)
+      .sort((a, b) => a.t - b.t);
+  }
+
+  /** Sweep the bullet's path since last frame against every target, so fast rounds can't skip through */
+  private checkBulletTargetHit(bullet: Bullet): void {
+    if (!bullet.isActive) return;
+
+    for (const { target, ring, x, y } of this.targetCrossings(bullet)) {
+      // An earlier crossing may have blown this one up already
+      if (target.isDestroyed) continue;
+
+      const shot = this.shots.get(bullet.shotId);
+      if (shot) shot.hit = true;
+
+      if (bullet.weapon.explosionRadius > 0) {
+        bullet.setPosition(x, y);
+        this.detonate(bullet, target, ring);
+        return;
+      }
+
+      // Hit!
+      const destroyed = this.hitTarget(target, ring);
+      if (destroyed && bullet.ricochets > 0) {
+        const bonus = this.scoreManager.registerTrickShot();
+        this.showFloatingText(target.x, target.y - 36, `TRICK SHOT +${bonus}`, '#66ffcc');
+      }
+      bullet.hitTargets.add(target);
+
+      // Piercing rounds carry on through to the next target
+      if (bullet.pierceLeft > 0) {
+        bullet.pierceLeft--;
+        continue;
+      }
+      // Other rounds can punch through a target they broke (armour that held stops them)
+      if (destroyed && bullet.penetrationLeft > 0) {
+        bullet.penetrate();
+        continue;
+      }
+      this.retireBullet(bullet);
+      return; // Spent in this target
+    }
+
+    bullet.endSweep();
+  }
+
+  /** Resolve a hit on one target; `blast` hits ignore armour. Returns true if a scoring target was destroyed. */
+  private hitTarget(target: Target, ring: number, blast: boolean = false): boolean {
+    if (target.type === 'decoy') {
+      target.hit(true);
+      const penalty = this.scoreManager.registerDecoyHit();
+      this.playSound('sfx_buzzer', 0.5);
+      this.showPointPopup(target.x, target.y, -penalty, false, 'NO SHOOT!');
+      this.showTargetExplosion(target.x, target.y);
+      return false;
+    }
+
+    if (!target.hit(blast)) {
+      // Armour held
+      this.playSound('sfx_clank', 0.5);
+      this.showFloatingText(target.x, target.y - 24, `${target.hitsLeft}`, '#aab0b8');
+      return false;
+    }
+
+    const isBullseye = ring === 0;
+    const points = this.scoreManager.registerHit(ring, target.isMoving, target.type);
+    this.ghosts.recordHit(this.ghostClock, target.x, target.y);
+
+    // Sound
+    if (isBullseye) {
+      this.playSound('sfx_bullseye', 0.6);
+    } else {
+      this.playSound('sfx_hit', 0.5);
+    }
+    if (this.scoreManager.combo >= 3) {
+      this.playSound('sfx_combo', 0.4);
+    }
+
+    // Show point popup (the bullseye gets its own banner)
+    const typeLabel = target.type === 'golden' ? 'GOLDEN'
+      : target.type === 'armored' ? 'ARMORED'
+      : target.isMoving ? 'MOVING' : '';
+    const ringLabel = isBullseye ? '' : TARGET_RINGS[ring].name;
+    const label = [typeLabel, ringLabel].filter(Boolean).join(' ') || undefined;
+    this.showPointPopup(target.x, target.y, points, isBullseye, label);
+
+    // Particle explosion
+    this.showTargetExplosion(target.x, target.y);
+
+    if (target.type === 'explosive') {
+      this.explodeTarget(target);
+    }
+    // Golden targets leave a power-up behind
+    if (target.type === 'golden') {
+      this.powerUps.push(new PowerUp(this, target.x, target.y, this.rng.stream('drops').pick(POWER_UP_ORDER), true));
+    }
+    return true;
+  }
+
+  /** Explosive target went up: everything nearby is destroyed, setting off other explosives in turn */
+  private explodeTarget(source: Target): void {
+    this.playSound('sfx_explosion', 0.6);
+    this.showBlast(source.x, source.y, EXPLOSIVE_TARGET_RADIUS);
+
+    for (const target of this.targets) {
+      if (target.isDestroyed || !target.active) continue;
+      if (Phaser.Math.Distance.Between(source.x, source.y, target.x, target.y) <= EXPLOSIVE_TARGET_RADIUS) {
+        this.hitTarget(target, TARGET_RINGS.length - 1, true);
+      }
+    }
+  }
+
+  /** Launcher shell went off: the struck target (if any) plus everything in the blast radius is hit */
+  private detonate(bullet: Bullet, struck?: Target, ring: number = TARGET_RINGS.length - 1): void {
+    const x = bullet.x;
+    const y = bullet.y;
+    const radius = bullet.weapon.explosionRadius;
+    this.retireBullet(bullet);
+
+    if (struck) this.hitTarget(struck, ring);
+    for (const target of this.targets) {
+      if (target.isDestroyed || !target.active || !target.visible) continue;
+      if (Phaser.Math.Distance.Between(x, y, target.x, target.y) <= radius) {
+        this.hitTarget(target, TARGET_RINGS.length - 1);
+      }
+    }
+    for (const hazard of this.hazards) {
+      if (hazard.isDestroyed) continue;
+      if (Phaser.Math.Distance.Between(x, y, hazard.x, hazard.y) <= radius + hazard.radius) {
+        this.hitHazard(hazard, true);
+      }
+    }
+    for (const point of this.boss?.exposedWeakPoints ?? []) {
+      const px = this.boss!.weakPointX(point);
+      const py = this.boss!.weakPointY(point);
+      if (Phaser.Math.Distance.Between(x, y, px, py) <= radius + this.boss!.def.weakPointRadius) {
+        this.hitBoss(point, true);
+      }
+    }
+
+    this.playSound('sfx_explosion', 0.6);
+    this.showBlast(x, y, radius);
+  }
+
+  // ─── Air Hazards ──────────────────────────────────
+
+  /** Spread this window's threats over the first part of the air time */
+  private queueHazards(): void {
+    const types = this.currentLevelConfig.hazards ?? [];
+    this.hazardQueue = types.map((type, i) => ({
+      type,
+      at: 0.4 + this.maxAirTime * 0.6 * (i / types.length),
+    }));
+  }
+
+  private spawnHazard(type: HazardType): void {
+    const viewRight = this.cameras.main.scrollX + GAME_WIDTH;
+    const athleteY = this.player.y - 32;
+    let hazard: Hazard;
+    switch (type) {
+      case 'bird':
+        // Straight across the flight path, from the right edge of the view
+        hazard = new Hazard(this, viewRight + 20, Phaser.Math.Clamp(athleteY + this.rng.stream('hazards').between(-40, 40), 60, GROUND_Y - 60), type);
+        this.playSound('sfx_bird', 0.4);
+        break;
+      case 'drone':
+        hazard = new Hazard(this, viewRight + 30, this.rng.stream('hazards').between(70, 150), type);
+        break;
+      case 'balloon':
+        // Rises between the athlete and the targets
+        hazard = new Hazard(this, this.player.x + this.rng.stream('hazards').between(180, 320), GROUND_Y - 20, type);
+        break;
+    }
+    this.hazards.push(hazard);
+  }
+
+  /** delta is world time */
+  private updateHazards(delta: number): void {
+    const inAir = this.phase === 'airborne' || this.phase === 'shooting';
+    while (inAir && this.hazardQueue.length > 0 && this.airTimer >= this.hazardQueue[0].at) {
+      this.spawnHazard(this.hazardQueue.shift()!.type);
+    }
+
+    const cam = this.cameras.main;
+    const athleteX = this.player.x;
+    const athleteY = this.player.y - 32;
+
+    for (const hazard of this.hazards) {
+      if (hazard.updateHazard(delta, cam.scrollX)) {
+        this.hazardShots.push(new HazardShot(this, hazard.x, hazard.y + 6, athleteX, athleteY));
+        this.playSound('sfx_drone_fire', 0.35);
+      }
+      if (inAir && hazard.isHarmful && Phaser.Math.Distance.Between(hazard.x, hazard.y, athleteX, athleteY) < hazard.radius + 14) {
+        this.hurtAthlete(hazard.type === 'drone' ? 'drone' : 'bird', hazard.x, hazard.y);
+      }
+      // Flew past, or floated away
+      if (!hazard.isDestroyed && (hazard.x < cam.scrollX - 40 || hazard.y < -40)) {
+        hazard.destroy();
+      }
+    }
+    this.hazards = this.hazards.filter(h => h.active);
+
+    for (const shot of this.hazardShots) {
+      shot.updateShot(delta);
+      if (inAir && Phaser.Math.Distance.Between(shot.x, shot.y, athleteX, athleteY) < 16) {
+        this.hurtAthlete(shot.cause, shot.x, shot.y);
+        shot.destroy();
+      } else if (shot.x < cam.scrollX - 20 || shot.x > cam.scrollX + GAME_WIDTH + 20 || shot.y > GROUND_Y || shot.y < -20) {
+        shot.destroy();
+      }
+    }
+    this.hazardShots = this.hazardShots.filter(s => s.active);
+  }
+
+  /** The airborne window is over: whatever is left clears off */
+  private clearHazards(): void {
+    this.hazardQueue = [];
+    this.hazards.forEach(h => h.retreat());
+    this.hazardShots.forEach(s => s.destroy());
+    this.hazardShots = [];
+  }
+
+  /**
+   * Threats in the way stop the round (that's what balloons are for). Only hazards the path
+   * reaches before `beforeT` count, so a nearer target gets the round first.
+   */
+  private checkBulletHazardHit(bullet: Bullet, beforeT: number = Infinity): void {
+    if (!bullet.isActive) return;
+
+    const radius = bullet.displayHeight / 2;
+    const struck = this.hazards
+      .filter(hazard => !hazard.isDestroyed)
+      .map(hazard => ({ hazard, ...bullet.closestApproach(hazard.x, hazard.y) }))
+      .filter(crossing => crossing.t < beforeT && crossing.dist <= crossing.hazard.radius + radius + this.hitReach)
+      .sort((a, b) => a.t - b.t)[0];
+    if (!struck) return;
+
+    // Taking out a threat counts as a hit for the combo
+    const shot = this.shots.get(bullet.shotId);
+    if (shot) shot.hit = true;
+
+    bullet.setPosition(struck.x, struck.y);
+    if (bullet.weapon.explosionRadius > 0) {
+      this.detonate(bullet);
+      return;
+    }
+    this.hitHazard(struck.hazard);
+    this.retireBullet(bullet);
+  }
+
+  private hitHazard(hazard: Hazard, blast: boolean = false): void {
+    if (!hazard.hit(blast)) {
+      this.playSound('sfx_clank', 0.4);
+      this.showSpark(hazard.x, hazard.y);
+      return;
+    }
+
+    const points = HAZARD_STATS[hazard.type].points;
+    this.scoreManager.addPoints(points);
+    if (hazard.type === 'balloon') {
+      this.playSound('sfx_pop', 0.5);
+    } else {
+      this.playSound('sfx_hit', 0.5);
+      this.showSpark(hazard.x, hazard.y);
+    }
+    this.showPointPopup(hazard.x, hazard.y - 16, points, false, hazard.type.toUpperCase());
+  }
+
+  /** A threat got through: lose health and get shoved. Birds knock the athlete out of the air. */
+  private hurtAthlete(cause: 'bird' | 'drone' | 'boss', fromX: number, fromY: number): void {
+    if (this.isDead || this.player.isInvulnerable) return;
+
+    const health = this.player.hurt();
+    this.playSound('sfx_hurt', 0.6);
+    this.cameras.main.shake(150, 0.01);
+
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    const angle = Phaser.Math.Angle.Between(fromX, fromY, this.player.x, this.player.y - 32);
+    body.setVelocity(
+      body.velocity.x + Math.cos(angle) * HAZARD_KNOCKBACK,
+      body.velocity.y + Math.sin(angle) * HAZARD_KNOCKBACK
+    );
+
+    if (health <= 0) {
+      this.triggerDeath(cause);
+      return;
+    }
+
+    this.cameras.main.flash(120, 160, 0, 0);
+    this.showFloatingText(this.player.x, this.player.y - 80, cause === 'bird' ? 'BIRD STRIKE!' : 'HIT!', '#ff4444');
+    if (cause === 'bird') {
+      this.startLanding();
+    }
+  }
+
+  // ─── Power-ups ────────────────────────────────────
+
+  /** Capsules hang in the flight path between the crossbar and the targets, dealt out to the stations in turn */
+  private spawnPowerUps(): void {
+    (this.currentLevelConfig.powerUps ?? []).forEach((id, i) => {
+      const station = i % this.stationCount;
+      const slot = Math.floor(i / this.stationCount);
+      const x = this.stationX(station) + CROSSBAR_X + 140 + slot * 60;
+      this.powerUps.push(new PowerUp(this, x, this.rng.stream('layout').between(150, 230), id));
+    });
+  }
+
+  /** delta is world time */
+  private updatePowerUps(delta: number): void {
+    const inAir = this.phase === 'airborne' || this.phase === 'shooting';
+    const athleteY = this.player.y - 32;
+
+    for (const capsule of this.powerUps) {
+      capsule.updatePowerUp(delta);
+      if (inAir && !capsule.isCollected
+        && Phaser.Math.Distance.Between(capsule.x, capsule.y, this.player.x, athleteY) < POWERUP_PICKUP_RADIUS + 12) {
+        capsule.collect();
+        this.activatePowerUp(capsule.powerUp);
+      }
+    }
+    this.powerUps = this.powerUps.filter(p => p.active);
+
+    // Timed effects are paused on the ground and carry on into the next station's flight
+    if (!inAir) return;
+    for (const [id, left] of this.powerUpTimers) {
+      if (left > delta) {
+        this.powerUpTimers.set(id, left - delta);
+      } else {
+        this.expirePowerUp(id);
+      }
+    }
+  }
+
+  private activatePowerUp(id: PowerUpId): void {
+    const def = POWER_UPS[id];
+    this.playSound('sfx_powerup', 0.5);
+    this.showFloatingText(this.player.x, this.player.y - 90, def.name, def.color);
+
+    switch (id) {
+      case 'airtime':
+        this.maxAirTime += POWERUP_AIR_TIME_BONUS;
+        this.flashPowerUpIcon(def, this.timerText, `+${POWERUP_AIR_TIME_BONUS}s`);
+        break;
+      case 'ammo':
+        this.player.addAmmo(MAGAZINE_SIZE);
+        this.flashPowerUpIcon(def, this.ammoText, `+${MAGAZINE_SIZE}`);
+        break;
+      case 'doubler':
+        this.scoreManager.scoreBoost = POWERUP_SCORE_MULT;
+        break;
+    }
+    // Catching one that's already running restarts its clock
+    if (def.durationMs > 0) {
+      this.powerUpTimers.set(id, def.durationMs);
+    }
+  }
+
+  /** Instant power-ups have no countdown, so their icon pops up briefly beside the readout they topped up */
+  private flashPowerUpIcon(def: PowerUpDef, readout: Phaser.GameObjects.Text, gain: string): void {
+    const y = readout.y + readout.height / 2;
+    const text = this.add.text(readout.x - readout.width - 6, y, gain, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '8px',
+      color: def.color,
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(1, 0.5).setScrollFactor(0).setDepth(50);
+    const icon = this.add.sprite(text.x - text.width - 10, y, 'powerup', def.frame)
+      .setScrollFactor(0).setDepth(50).setScale(1.6);
+
+    this.tweens.add({ targets: icon, scale: 1, duration: 200, ease: 'Back.easeOut' });
+    this.tweens.add({
+      targets: [icon, text],
+      alpha: 0,
+      delay: 900,
+      duration: 400,
+      onComplete: () => {
+        icon.destroy();
+        text.destroy();
+      },
+    });
+  }
+
+  private expirePowerUp(id: PowerUpId): void {
+    this.powerUpTimers.delete(id);
+    if (id === 'doubler') {
+      this.scoreManager.scoreBoost = 1;
+    }
+    this.playSound('sfx_powerup_end', 0.4);
+  }
+
+  private hasPowerUp(id: PowerUpId): boolean {
+    return this.powerUpTimers.has(id);
+  }
+
+  /** Extra reach (px) on every round while big hits are active */
+  private get hitReach(): number {
+    return this.hasPowerUp('bighit') ? POWERUP_HIT_RADIUS_BONUS : 0;
+  }
+
+  /** Magnet: drift toward the nearest target still standing at this station */
+  private applyMagnet(delta: number): void {
+    const athleteY = this.player.y - 32;
+    const distance = (t: Target) => Phaser.Math.Distance.Between(this.player.x, athleteY, t.x, t.y);
+    const nearest = this.stationTargets[this.station]
+      .filter(t => !t.isDestroyed && t.isShootable)
+      .sort((a, b) => distance(a) - distance(b))[0];
+    if (!nearest) return;
+
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    const angle = Phaser.Math.Angle.Between(this.player.x, athleteY, nearest.x, nearest.y);
+    const pull = POWERUP_MAGNET_ACCEL * delta / 1000;
+    body.setVelocity(body.velocity.x + Math.cos(angle) * pull, body.velocity.y + Math.sin(angle) * pull);
+  }
+
+  // ─── Boss ─────────────────────────────────────────
+
+  /** delta is world time. The boss only fires while the athlete is in the air and it's on screen. */
+  private updateBoss(delta: number): void {
+    if (!this.boss) return;
+    const cam = this.cameras.main;
+    const inAir = this.phase === 'airborne' || this.phase === 'shooting';
+    const onScreen = this.boss.x > cam.scrollX && this.boss.x < cam.scrollX + GAME_WIDTH;
+    if (this.boss.updateBoss(delta, inAir && onScreen)) {
+      this.hazardShots.push(new HazardShot(this, this.boss.muzzleX, this.boss.muzzleY, this.player.x, this.player.y - 32, 'boss'));
+      this.playSound('sfx_drone_fire', 0.5);
+    }
+    // Flying into the hull hurts as much as its guns
+    if (inAir && this.boss.hullContains(this.player.x, this.player.y - 32)) {
+      this.hurtAthlete('boss', this.boss.x, this.boss.y);
+    }
+  }
+
+  /** Weak points take the round; the rest of the hull is armour and stops it dead */
+  private checkBulletBossHit(bullet: Bullet): void {
+    if (!bullet.isActive || !this.boss || this.boss.isDefeated) return;
+
+    const radius = bullet.displayHeight / 2;
+    const boss = this.boss;
+    const struck = boss.exposedWeakPoints
+      .map(point => ({ point, ...bullet.closestApproach(boss.weakPointX(point), boss.weakPointY(point)) }))
+      .filter(crossing => crossing.dist <= boss.def.weakPointRadius + radius + this.hitReach)
+      .sort((a, b) => a.t - b.t)[0];
+
+    if (struck) {
+      const shot = this.shots.get(bullet.shotId);
+      if (shot) shot.hit = true;
+      bullet.setPosition(struck.x, struck.y);
+      if (bullet.weapon.explosionRadius > 0) {
+        this.detonate(bullet);
+        return;
+      }
+      this.hitBoss(struck.point);
+      this.retireBullet(bullet);
+      return;
+    }
+
+    if (boss.hullContains(bullet.x, bullet.y)) {
+      if (bullet.weapon.explosionRadius > 0) {
+        this.detonate(bullet);
+        return;
+      }
+      this.playSound('sfx_clank', 0.4);
+      this.showSpark(bullet.x, bullet.y);
+      this.retireBullet(bullet);
+    }
+  }
+
+  private hitBoss(point: BossWeakPoint, blast: boolean = false): void {
+    const boss = this.boss!;
+    const x = boss.weakPointX(point);
+    const y = boss.weakPointY(point);
+    const result = boss.hit(point, blast);
+
+    if (result === 'damaged') {
+      this.playSound('sfx_clank', 0.5);
+      this.showSpark(x, y);
+      this.showFloatingText(x, y - 16, `${point.hp}`, '#ffaa66');
+      return;
+    }
+
+    const points = this.scoreManager.registerBossWeakPoint();
+    this.playSound('sfx_hit', 0.6);
+    this.showTargetExplosion(x, y);
+    this.showPointPopup(x, y - 16, points, false, 'WEAK POINT');
+
+    if (result === 'phase') {
+      this.playSound('sfx_boss_phase', 0.5);
+      this.cameras.main.shake(200, 0.008);
+      this.showFloatingText(boss.x, boss.y - boss.def.height / 2 - 20, `${boss.currentPhase.name} EXPOSED!`, '#ffaa33');
+    } else if (result === 'defeated') {
+      const bonus = this.scoreManager.registerBossDefeat(boss.def.points);
+      this.playSound('sfx_boss_down', 0.7);
+      this.cameras.main.shake(600, 0.02);
+      this.cameras.main.flash(300, 255, 200, 120);
+      this.showBlast(boss.x, boss.y, Math.max(boss.def.width, boss.def.height) / 2);
+      this.showPointPopup(boss.x, boss.y - 40, bonus, true, `${boss.def.name} DOWN!`);
+      // Anything it had in the air fizzles out
+      this.hazardShots.filter(s => s.cause === 'boss').forEach(s => s.destroy());
+      this.hazardShots = this.hazardShots.filter(s => s.active);
+    }
+  }
+
+  private checkCrossbar(): void {
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    const bodyRect = new Phaser.Geom.Rectangle(body.x, body.y, body.width, body.height);
+    const result = this.crossbar.checkAthlete(bodyRect);
+    const height = this.crossbar.heightMeters.toFixed(2);
+
+    if (result === 'knocked') {
+      this.crossbar.knock(body.velocity.x, body.velocity.y);
+      // Clipping the bar costs the athlete some momentum
+      if (this.phase !== 'vaulting') {
+        body.setVelocityX(body.velocity.x * 0.5);
+      }
+      const penalty = this.scoreManager.registerBarKnock(this.crossbar.heightMeters);
+      this.playSound('sfx_bar_knock', 0.6);
+      this.cameras.main.shake(120, 0.006);
+      this.showFloatingText(this.crossbar.x, this.crossbar.getBarY() - 20, `BAR DOWN! -${penalty}`, '#ff4444');
+    } else if (result === 'cleared') {
+      const bonus = this.scoreManager.registerBarClear(this.crossbar.heightMeters);
+      this.playSound('sfx_combo', 0.4);
+      this.showPointPopup(this.crossbar.x, this.crossbar.getBarY() - 20, bonus, false, `CLEARED ${height}m`);
+    }
+  }
+
+  private updateLanding(delta: number): void {
+    // Falling under full gravity until the feet meet the foam (or the runway)
+    if (!this.player.landingGrade) {
+      this.updateTricks(delta);
+      if (this.player.y >= this.getLandingSurfaceY(this.player.x)) {
+        this.touchDown();
+      }
+    }
+
+    const targetScrollX = Math.max(0, this.player.x - GAME_WIDTH / 3);
+    this.cameras.main.scrollX += (targetScrollX - this.cameras.main.scrollX) * 0.1;
   }
 
-  private lastShotTime: number = 0;
+  /** Left edge of a station's stretch of the course, relative to the first */
+  private stationX(station: number): number {
+    return station * STATION_SPACING;
+  }
 
-  private canShoot(): boolean {
-    const now = this.time.now;
-    return now - this.lastShotTime > 150; // 150ms between shots (faster fire rate)
+  /** Over the current station's pit; overshooting onto the next runway is a crash */
+  private isOverPit(x: number): boolean {
+    const offset = this.stationX(this.station);
+    return x >= PIT_START_X + offset && x <= PIT_END_X + offset;
   }
 
-  private fireGun(angle: number): void {
-    if (!this.player.shoot()) return;
-    this.lastShotTime = this.time.now;
+  private get crossbar(): Crossbar {
+    return this.crossbars[this.station];
+  }
 
-    // Find inactive bullet
-    let bullet = this.bullets.find(b => !b.isActive);
-    if (!bullet) {
-      bullet = new Bullet(this, 0, 0);
-      this.bullets.push(bullet);
-    }
+  private getLandingSurfaceY(x: number): number {
+    return this.isOverPit(x) ? PIT_TOP_Y : GROUND_Y;
+  }
 
-    bullet.fire(this.gun.x, this.gun.y, angle);
+  private startLanding(): void {
+    this.phase = 'landing';
+    this.clearHazards();
+    // A trick still spinning carries on into the fall; it has to finish before touchdown
+    if (!this.player.isTricking) this.player.setState('landing');
+    this.gun.hide();
+    this.crosshair.hide();
 
-    // Sound
-    this.playSound('sfx_gunshot', 0.5);
+    // Air time is over: drop with full gravity
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    body.setGravityY(0);
+    body.setAllowGravity(true);
+  }
 
-    // Muzzle flash
-    this.showMuzzleFlash(this.gun.x + Math.cos(angle) * 12, this.gun.y + Math.sin(angle) * 12);
+  /** Grade the landing from how hard and how crooked the athlete came down */
+  private gradeLanding(): LandingGrade {
+    if (!this.isOverPit(this.player.x)) return 'crash';
+    if (this.player.isTricking) return 'faceplant'; // came down mid-trick
 
-    // Shell casing
-    if (this.shellEmitter) {
-      this.shellEmitter.setPosition(this.gun.x, this.gun.y);
-      this.shellEmitter.emitParticle(1);
-    }
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    const impactSpeed = Math.max(body.velocity.y, 0);
+    const tilt = Math.abs(Phaser.Math.RadToDeg(Phaser.Math.Angle.Wrap(this.player.rotation)));
 
-    // Screen shake
-    this.cameras.main.shake(60, 0.003);
+    if (impactSpeed <= LANDING_CLEAN_VY && tilt <= LANDING_CLEAN_TILT) return 'clean';
+    if (impactSpeed <= LANDING_ROUGH_VY && tilt <= LANDING_ROUGH_TILT) return 'rough';
+    return 'faceplant';
+  }
+
+  private touchDown(): void {
+    const grade = this.gradeLanding();
+    this.player.bailTrick();
+    const surfaceY = this.getLandingSurfaceY(this.player.x);
 
-    // Recoil effect on player
     const body = this.player.body as Phaser.Physics.Arcade.Body;
-    body.setVelocityX(body.velocity.x - Math.cos(angle) * 20);
-    body.setVelocityY(body.velocity.y - Math.sin(angle) * 15);
-  }
+    body.setVelocity(0, 0);
+    body.setAllowGravity(false);
+    this.player.y = surfaceY;
+    this.player.setLanding(grade);
+
+    const points = this.scoreManager.registerLanding(grade);
+    const popupX = this.player.x;
+    const popupY = this.player.y - 70;
+
+    switch (grade) {
+      case 'clean':
+        this.tweens.add({ targets: this.player, rotation: 0, duration: 150 });
+        this.squishPit(0.85);
+        this.cameras.main.shake(80, 0.003);
+        this.playSound('sfx_land', 0.6);
+        this.showPointPopup(popupX, popupY, points, false, 'CLEAN LANDING');
+        break;
+      case 'rough':
+        this.tweens.add({ targets: this.player, rotation: 0, duration: 200 });
+        this.squishPit(0.7);
+        this.cameras.main.shake(120, 0.006);
+        this.playSound('sfx_land_rough', 0.6);
+        this.showPointPopup(popupX, popupY, points, false, 'ROUGH LANDING');
+        break;
+      case 'faceplant':
+        // Tip forward onto the mats
+        this.tweens.add({ targets: this.player, rotation: Math.PI / 2, duration: 250, ease: 'Quad.easeIn' });
+        this.squishPit(0.6);
+        this.cameras.main.shake(150, 0.01);
+        this.playSound('sfx_faceplant', 0.6);
+        this.showPointPopup(popupX, popupY, points, false, 'FACE-PLANT');
+        break;
+      case 'crash':
+        // Missed the pit: slam onto the runway, flat on the back
+        this.tweens.add({ targets: this.player, rotation: -Math.PI / 2, duration: 200, ease: 'Quad.easeIn' });
+        this.cameras.main.shake(250, 0.015);
+        this.playSound('sfx_crash', 0.7);
+        this.showFloatingText(popupX, popupY, 'CRASHED ON THE RUNWAY!', '#ff4444');
+        break;
+    }
 
-  private checkBulletTargetHit(bullet: Bullet): void {
-    if (!bullet.isActive) return;
-    
-    for (const target of this.targets) {
-      if (target.isDestroyed || !target.active) continue;
+    // Tricks only count if the athlete stays on their feet
+    if (grade === 'clean' || grade === 'rough') {
+      const style = this.scoreManager.style;
+      const banked = this.scoreManager.bankTricks();
+      if (banked > 0) {
+        this.showPointPopup(popupX, popupY - 70, banked, false, `TRICKS STYLE x${style.toFixed(2)}`);
+      }
+    } else {
+      const lost = this.scoreManager.bailTricks();
+      if (lost > 0) {
+        this.showFloatingText(popupX, popupY - 70, `BAILED! TRICKS -${lost}`, '#ff4444');
+      }
+    }
 
-      const dist = Phaser.Math.Distance.Between(bullet.x, bullet.y, target.x, target.y);
-      if (dist < 20) {
-        // Hit!
-        const isBullseye = dist < 8;
-        const points = this.scoreManager.registerHit(isBullseye);
-        target.hit();
-        bullet.deactivate();
-
-        // Sound
-        if (isBullseye) {
-          this.playSound('sfx_bullseye', 0.6);
-        } else {
-          this.playSound('sfx_hit', 0.5);
-        }
-        if (this.scoreManager.combo >= 3) {
-          this.playSound('sfx_combo', 0.4);
-        }
+    // Dust on landing
+    if (this.dustEmitter) {
+      this.dustEmitter.setPosition(this.player.x, surfaceY);
+      for (let i = 0; i < (grade === 'crash' ? 10 : 5); i++) this.dustEmitter.emitParticle(1);
+    }
+
+    // Calculate vault bonus
+    const vaultBonus = this.scoreManager.addVaultBonus(this.vaultPeakHeight);
+    if (vaultBonus > 0) {
+      this.showPointPopup(this.player.x, this.player.y - 40, vaultBonus, false, 'VAULT BONUS');
+    }
 
-        // Show point popup
-        this.showPointPopup(target.x, target.y, points, isBullseye);
+    // More stations to go: climb out and run at the next box
+    if (grade !== 'crash' && this.station < this.stationCount - 1) {
+      this.time.delayedCall(1200, () => this.startNextStation());
+      return;
+    }
 
-        // Particle explosion
-        this.showTargetExplosion(target.x, target.y);
-        
-        break; // One bullet can only hit one target
+    // Unspent rounds bonus (only for an attempt that counts)
+    if (this.isAttemptPassed()) {
+      const ammoBonus = this.scoreManager.addAmmoBonus(this.player.totalAmmo);
+      if (ammoBonus > 0) {
+        this.showPointPopup(this.player.x, this.player.y - 110, ammoBonus, false, 'AMMO BONUS');
       }
     }
+
+    // Show results after a delay
+    this.time.delayedCall(1500, () => this.showResults());
   }
 
-  private updateLanding(_delta: number): void {
-    // Landing is handled by the tween in startLanding().
-    // Nothing to do here each frame.
+  /** Leave the current station behind, whether it was vaulted or run straight past */
+  private advanceStation(): void {
+    // Whatever is still standing at this station has been missed
+    this.stationTargets[this.station].forEach(t => {
+      if (!t.isDestroyed) t.setVisible(false);
+    });
+    this.station++;
+    this.updateLevelText();
+    // Not finished yet: the boss follows to the next station
+    this.boss?.relocate(this.stationX(this.station) + this.boss.def.anchorX);
   }
 
-  private startLanding(): void {
-    this.phase = 'landing';
-    this.player.setState('landing');
-    this.gun.hide();
-    this.crosshair.hide();
+  private startNextStation(): void {
+    if (this.phase !== 'landing') return;
+    this.advanceStation();
 
+    // Back on the runway, standing, pole to be picked up on the first stride
+    this.tweens.killTweensOf(this.player);
+    this.player.setRotation(0);
+    this.player.landingGrade = null;
+    this.player.resetRun();
+    this.player.setState('idle');
+    this.player.y = GROUND_Y;
     const body = this.player.body as Phaser.Physics.Arcade.Body;
+    body.setVelocity(0, 0);
     body.setGravityY(0);
-    body.setAllowGravity(true);
-
-    // Ensure player reaches ground
-    this.tweens.add({
-      targets: this.player,
-      y: GROUND_Y,
-      duration: 400,
-      ease: 'Bounce.easeOut',
-      onComplete: () => {
-        body.setVelocity(0, 0);
-        body.setAllowGravity(false);
-        this.player.y = GROUND_Y;
-
-        // Dust on landing
-        if (this.dustEmitter) {
-          this.dustEmitter.setPosition(this.player.x, GROUND_Y);
-          for (let i = 0; i < 5; i++) this.dustEmitter.emitParticle(1);
-        }
-        this.cameras.main.shake(100, 0.005);
-        this.playSound('sfx_land', 0.6);
+    body.setAllowGravity(false);
+    this.windCarry = 0;
+    this.runStoppedMs = -1;
+    // A/D pressed to steer in the air mustn't count as the first stride
+    this.aKey.reset();
+    this.dKey.reset();
 
-        // Calculate vault bonus
-        const vaultBonus = this.scoreManager.addVaultBonus(this.vaultPeakHeight);
-        if (vaultBonus > 0) {
-          this.showPointPopup(this.player.x, this.player.y - 40, vaultBonus, false, 'VAULT BONUS');
-        }
+    this.phase = 'ready';
+    this.showInstruction(`STATION ${this.station + 1}/${this.stationCount}: A/D to run at the next box!`);
+  }
 
-        // Show results after a delay
-        this.time.delayedCall(1500, () => this.showResults());
-      },
+  private squishPit(scaleY: number): void {
+    this.tweens.add({
+      targets: this.landingPits[this.station],
+      scaleY,
+      duration: 90,
+      yoyo: true,
+      ease: 'Quad.easeOut',
     });
   }
 
-  private showResults(): void {
-    this.phase = 'results';
-    
+  /** Whether the attempt as it stands clears the stage under the current mode's rules */
+  private isAttemptPassed(): boolean {
     const hit = this.scoreManager.targetsHit;
-    const total = this.targets.length;
+    const total = this.scoreManager.totalTargets;
     const required = this.currentLevelConfig.requiredHits;
 
     let passed = false;
     if (this.gameMode === 'level') {
       passed = hit >= total; // Must hit ALL targets to pass
+    } else if (this.gameMode === 'timeattack') {
+      passed = true; // Time attack: misses cost seconds instead
     } else {
-      passed = true; // Arcade always continues
+      passed = hit >= required; // Arcade: falling short costs a life
     }
+    // Missing the pit is a failed attempt whatever was hit
+    if (this.scoreManager.landingGrade === 'crash') passed = false;
+    // A boss that survives every station gets away
+    if (this.boss && !this.boss.isDefeated) passed = false;
+    // Level mode: knocking the bar off is a foul, however well it was shot
+    if (this.gameMode === 'level' && this.scoreManager.barKnocked) passed = false;
+    return passed;
+  }
+
+  private showResults(): void {
+    this.phase = 'results';
+    const passed = this.isAttemptPassed();
+    if (this.saveGhost(passed)) this.showFloatingText(this.player.x, this.player.y - 90, 'NEW GHOST', '#88ccff');
+
+    const fouled = this.gameMode === 'level' && this.scoreManager.barKnocked;
 
     if (passed) {
       this.player.setState('celebrating');
@@ -573,22 +1889,239 @@ export class GameScene extends Phaser.Scene {
       this.playSound('sfx_fail', 0.5);
     }
 
-    // Go to score scene
+    // Go to score scene (arcade stays in the run until the last life is gone, levels until the last attempt)
     this.time.delayedCall(1000, () => {
-      this.scene.start('ScoreScene', {
-        mode: this.gameMode,
-        level: this.scoreManager.currentLevel,
-        score: this.scoreManager.currentScore,
-        targetsHit: hit,
-        totalTargets: total,
-        requiredHits: required,
-        passed,
-        vaultHeight: this.vaultPeakHeight,
-        combo: this.scoreManager.maxCombo,
+      if (this.gameMode === 'arcade') {
+        this.finishArcadeWave(passed);
+      } else if (this.gameMode === 'timeattack') {
+        this.finishTimeAttackLevel(passed);
+      } else if (this.practice) {
+        this.finishPracticeRun(passed);
+      } else if (this.gameMode === 'hotseat') {
+        this.finishHotSeatTurn(passed);
+      } else if (passed) {
+        this.scoreManager.registerClearedAttempt();
+        this.endAttempt(true);
+      } else if (fouled) {
+        this.failAttempt('foul', 'BAR KNOCKED');
+      } else if (this.scoreManager.landingGrade === 'crash') {
+        this.failAttempt('miss', 'CRASHED');
+      } else if (this.boss && !this.boss.isDefeated) {
+        this.failAttempt('miss', `${this.boss.def.name} GOT AWAY`);
+      } else {
+        this.failAttempt('miss', 'MISSED TARGETS');
+      }
+    });
+  }
+
+  /** Level mode: the run-up broke the rules, so the attempt ends on the spot */
+  private callFoul(reason: string): void {
+    this.phase = 'results';
+    const body = this.player.body as Phaser.Physics.Arcade.Body;
+    body.setVelocityX(0);
+    this.player.setState('idle');
+    this.strideMeter.setVisible(false);
+    this.playSound('sfx_buzzer', 0.5);
+    this.showFloatingText(this.player.x, this.player.y - 72, 'FOUL!', '#ff4444');
+    this.time.delayedCall(800, () => this.failAttempt('foul', reason));
+  }
+
+  /** Level mode: use up an attempt, going again from the same level until none are left */
+  private failAttempt(mark: 'foul' | 'miss', reason: string, death?: DeathCause): void {
+    const attemptsLeft = this.scoreManager.registerFailedAttempt(mark);
+    if (attemptsLeft <= 0) {
+      this.endAttempt(false, death, mark === 'foul' ? reason : undefined);
+      return;
+    }
+
+    const level = this.scoreManager.currentLevel;
+    this.showWaveInterstitial(
+      mark === 'foul' ? `FOUL: ${reason}` : reason,
+      `${attemptsLeft} ${attemptsLeft === 1 ? 'ATTEMPT' : 'ATTEMPTS'} LEFT`,
+      '#ff8844',
+    );
+
+    this.time.delayedCall(2000, () => {
+      this.cameras.main.fadeOut(300, 0, 0, 0);
+      this.cameras.main.once('camerafadeoutcomplete', () => {
+        this.scene.start('GameScene', { mode: 'level', level, retry: true, attempt: true });
+      });
+    });
+  }
+
+  private endAttempt(passed: boolean, death?: DeathCause, foul?: string): void {
+    this.scene.start('ScoreScene', {
+      mode: this.gameMode,
+      level: this.scoreManager.currentLevel,
+      score: this.scoreManager.currentScore,
+      targetsHit: this.scoreManager.targetsHit,
+      totalTargets: this.scoreManager.totalTargets,
+      requiredHits: this.currentLevelConfig.requiredHits,
+      passed,
+      vaultHeight: this.vaultPeakHeight,
+      combo: this.scoreManager.maxCombo,
+      death,
+      barHeight: this.crossbar.heightMeters,
+      barCleared: this.scoreManager.barCleared,
+      barKnocked: this.scoreManager.barKnocked,
+      landing: this.scoreManager.landingGrade ?? undefined,
+      boss: this.currentLevelConfig.boss,
+      bossDefeated: this.boss?.isDefeated,
+      attempts: this.gameMode === 'level' ? this.scoreManager.getAttemptSheet() : undefined,
+      foul,
+      daily: this.daily,
+      timeMs: this.gameMode === 'timeattack' ? this.scoreManager.runTimeMs : undefined,
+      splits: this.gameMode === 'timeattack' ? [...this.scoreManager.splits] : undefined,
+    });
+  }
+
+  /**
+   * Time attack: bank the split and move on, or go again at the same level with the
+   * clock still running. Targets left standing are added to the clock as penalties.
+   */
+  private finishTimeAttackLevel(cleared: boolean): void {
+    const level = this.scoreManager.currentLevel;
+    let headline: string;
+    let detail: string;
+    let color: string;
+
+    if (cleared) {
+      const missed = this.scoreManager.totalTargets - this.scoreManager.targetsHit;
+      const penalty = this.scoreManager.addMissPenalty(missed);
+      const split = this.scoreManager.recordSplit();
+      const best = this.scoreManager.getBestSplits()[level - 1];
+      headline = `SPLIT ${formatRunTime(split)}`;
+      detail = penalty > 0 ? `+${penalty / 1000}s FOR ${missed} MISSED` : 'NO PENALTIES';
+      if (best !== undefined) {
+        const diff = split - best;
+        detail += `  ${diff <= 0 ? '-' : '+'}${formatRunTime(Math.abs(diff))} VS BEST`;
+      }
+      color = best === undefined || split <= best ? '#44ff44' : '#ff8844';
+
+      if (level >= TIME_ATTACK_LEVELS) {
+        this.showWaveInterstitial(headline, detail, color);
+        this.time.delayedCall(2000, () => this.endAttempt(true));
+        return;
+      }
+    } else {
+      headline = `LEVEL ${level} AGAIN`;
+      detail = `CLOCK STILL RUNNING: ${formatRunTime(this.scoreManager.runTimeMs)}`;
+      color = '#ff8844';
+    }
+
+    this.showWaveInterstitial(headline, detail, color);
+
+    this.time.delayedCall(2000, () => {
+      this.cameras.main.fadeOut(300, 0, 0, 0);
+      this.cameras.main.once('camerafadeoutcomplete', () => {
+        this.scene.start('GameScene', {
+          mode: 'timeattack',
+          level: cleared ? level + 1 : level,
+          retry: true,
+        });
+      });
+    });
+  }
+
+  /** Practice: sum up the run and go straight into the next one; nothing is recorded */
+  private finishPracticeRun(cleared: boolean): void {
+    const peak = (this.vaultPeakHeight / PIXELS_PER_METER).toFixed(2);
+    this.showWaveInterstitial(
+      cleared ? 'CLEAN RUN' : 'TRY AGAIN',
+      `${this.scoreManager.targetsHit}/${this.scoreManager.totalTargets} TARGETS  PEAK ${peak} M  SCORE ${this.scoreManager.currentScore}`,
+      cleared ? '#44ff44' : '#ff8844',
+    );
+    this.time.delayedCall(1500, () => this.restartPractice());
+  }
+
+  private restartPractice(): void {
+    this.scene.start('GameScene', { mode: 'practice', level: this.practice!.level, retry: true, practice: this.practice });
+  }
+
+  /** Hot seat: one attempt per turn; bank whatever it scored and hand over via the standings */
+  private finishHotSeatTurn(cleared: boolean): void {
+    const player = this.scoreManager.players[this.scoreManager.activePlayer];
+    this.scoreManager.bankTurn();
+    this.showWaveInterstitial(
+      `${player.name}: ${player.score}`,
+      `${this.scoreManager.targetsHit}/${this.scoreManager.totalTargets} TARGETS  TOTAL ${player.total}`,
+      cleared ? '#44ff44' : '#ff8844',
+    );
+
+    this.time.delayedCall(2000, () => {
+      this.cameras.main.fadeOut(300, 0, 0, 0);
+      this.cameras.main.once('camerafadeoutcomplete', () => {
+        this.scene.start('StandingsScene');
+      });
+    });
+  }
+
+  /** Arcade: bank a cleared wave or spend a life, then roll into the next attempt */
+  private finishArcadeWave(cleared: boolean, death?: DeathCause): void {
+    const wave = this.scoreManager.currentLevel;
+    let headline: string;
+    let detail: string;
+    let color: string;
+
+    if (cleared) {
+      const bonus = this.scoreManager.addWaveBonus(wave);
+      headline = this.boss ? `${this.boss.def.name} DOWN!` : `WAVE ${wave} CLEAR!`;
+      detail = `WAVE BONUS +${bonus}`;
+      color = '#44ff44';
+    } else {
+      const livesLeft = this.scoreManager.loseLife();
+      if (livesLeft <= 0) {
+        this.endAttempt(false, death);
+        return;
+      }
+      headline = 'LIFE LOST';
+      detail = `${livesLeft} ${livesLeft === 1 ? 'LIFE' : 'LIVES'} LEFT`;
+      color = '#ff4444';
+    }
+
+    this.showWaveInterstitial(headline, detail, color);
+
+    this.time.delayedCall(2000, () => {
+      this.cameras.main.fadeOut(300, 0, 0, 0);
+      this.cameras.main.once('camerafadeoutcomplete', () => {
+        this.scene.start('GameScene', {
+          mode: 'arcade',
+          level: cleared ? wave + 1 : wave,
+          retry: true,
+          daily: this.daily,
+        });
       });
     });
   }
 
+  private showWaveInterstitial(headline: string, detail: string, color: string): void {
+    const overlay = this.add.rectangle(GAME_WIDTH / 2, GAME_HEIGHT / 2, GAME_WIDTH, 120, 0x000000, 0.7);
+    overlay.setScrollFactor(0).setDepth(90);
+
+    const title = this.add.text(GAME_WIDTH / 2, GAME_HEIGHT / 2 - 18, headline, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '20px',
+      color,
+      stroke: '#000000',
+      strokeThickness: 3,
+    }).setOrigin(0.5, 0.5).setScrollFactor(0).setDepth(91);
+
+    this.add.text(GAME_WIDTH / 2, GAME_HEIGHT / 2 + 20, detail, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#f0e68c',
+    }).setOrigin(0.5, 0.5).setScrollFactor(0).setDepth(91);
+
+    this.tweens.add({
+      targets: title,
+      scaleX: 1.1,
+      scaleY: 1.1,
+      yoyo: true,
+      repeat: -1,
+      duration: 400,
+    });
+  }
+
   // ─── Object Creation ──────────────────────────────
 
   private createBackground(): void {
@@ -600,15 +2133,16 @@ export class GameScene extends Phaser.Scene {
     this.bgElements.push(sky);
 
     // Clouds (parallax layer)
+    const layout = this.rng.stream('layout');
     for (let i = 0; i < 6; i++) {
       const cloud = this.add.sprite(
-        100 + i * 250 + Math.random() * 100,
-        30 + Math.random() * 80,
+        100 + i * 250 + layout.frac() * 100,
+        30 + layout.frac() * 80,
         'cloud'
       );
       cloud.setScrollFactor(0.3);
       cloud.setAlpha(0.8);
-      cloud.setScale(1 + Math.random() * 0.5);
+      cloud.setScale(1 + layout.frac() * 0.5);
       this.clouds.push(cloud);
     }
 
@@ -625,9 +2159,23 @@ export class GameScene extends Phaser.Scene {
       this.bgElements.push(fence);
     }
 
+    // Windsock beside the runway, before the first plant box
+    this.windsock = new Windsock(this, VAULT_PLANT_X - 120);
+    this.windsock.setDepth(4);
+    this.bgElements.push(this.windsock);
+
+    for (let i = 0; i < this.stationCount; i++) {
+      this.createStation(i);
+    }
+  }
+
+  /** One vault station: plant zone, crossbar and landing pit */
+  private createStation(station: number): void {
+    const offset = this.stationX(station);
+
     // Vault zone — solid red square on the runway showing where you can plant
-    const vaultZoneStart = VAULT_PLANT_X - 60;
-    const vaultZoneEnd = VAULT_PLANT_X + 80; // must stop before the crossbar
+    const vaultZoneStart = offset + VAULT_PLANT_X - 60;
+    const vaultZoneEnd = offset + VAULT_PLANT_X + 80; // must stop before the crossbar
     const vaultZone = this.add.graphics();
     vaultZone.fillStyle(0xcc2222, 0.45);
     vaultZone.fillRect(vaultZoneStart, GROUND_Y - 4, vaultZoneEnd - vaultZoneStart, 36);
@@ -636,16 +2184,32 @@ export class GameScene extends Phaser.Scene {
     vaultZone.strokeRect(vaultZoneStart, GROUND_Y - 4, vaultZoneEnd - vaultZoneStart, 36);
     this.bgElements.push(vaultZone);
 
-    // Crossbar to vault over (positioned well past the vault zone)
-    const crossbar = this.add.sprite(VAULT_PLANT_X + 90, GROUND_Y, 'crossbar');
-    crossbar.setOrigin(0.5, 1);
+    // Landing pit: foam mats past the crossbar
+    const pit = this.add.tileSprite(offset + PIT_START_X, GROUND_Y, PIT_END_X - PIT_START_X, GROUND_Y - PIT_TOP_Y, 'pit_foam');
+    pit.setOrigin(0, 1).setDepth(4);
+    this.landingPits.push(pit);
+    this.bgElements.push(pit);
+
+    // Crossbar to vault over (positioned well past the vault zone), set to this level's height
+    const crossbar = new Crossbar(this, offset + CROSSBAR_X, this.currentLevelConfig.barHeight);
     crossbar.setDepth(5);
+    this.crossbars.push(crossbar);
     this.bgElements.push(crossbar);
+
+    const barLabel = this.add.text(crossbar.x, crossbar.getBarY() - 8, `${this.currentLevelConfig.barHeight.toFixed(2)}m`, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '6px',
+      color: '#ffffff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    });
+    barLabel.setOrigin(0.5, 1).setDepth(5);
+    this.bgElements.push(barLabel);
   }
 
   private createGround(): void {
     // Runway — extend across the full world width
-    const worldTiles = Math.ceil((GAME_WIDTH * 2) / 32) + 2; // enough to cover full camera
+    const worldTiles = Math.ceil(this.stageWidth / 32) + 2; // enough to cover full camera
     for (let i = 0; i < worldTiles; i++) {
       const tile = this.add.sprite(i * 32, GROUND_Y, 'runway');
       tile.setOrigin(0, 0);
@@ -692,12 +2256,12 @@ export class GameScene extends Phaser.Scene {
   }
 
   private createSpikeWall(): void {
-    this.spikeWall = this.add.sprite(SPIKE_WALL_X, 0, 'spike_wall');
+    this.spikeWall = this.add.sprite(this.spikeWallX, 0, 'spike_wall');
     this.spikeWall.setOrigin(0, 0);
     this.spikeWall.setDepth(6);
 
     // Warning sign above the spikes
-    const warnText = this.add.text(SPIKE_WALL_X + 16, GROUND_Y - 20, '⚠ DANGER', {
+    const warnText = this.add.text(this.spikeWallX + 16, GROUND_Y - 20, '⚠ DANGER', {
       fontFamily: '"Press Start 2P", monospace',
       fontSize: '6px',
       color: '#ff4444',
@@ -707,9 +2271,11 @@ export class GameScene extends Phaser.Scene {
     warnText.setOrigin(0.5, 1).setDepth(6);
   }
 
-  private triggerSpikeDeath(): void {
+  private triggerDeath(cause: DeathCause): void {
     this.isDead = true;
     this.phase = 'results'; // stop all phase updates
+    this.saveGhost(false);
+    this.clearHazards();
 
     // Kill any running tweens on the player (e.g. vault rotation)
     this.tweens.killTweensOf(this.player);
@@ -728,7 +2294,7 @@ export class GameScene extends Phaser.Scene {
     // Massive camera shake
     this.cameras.main.shake(500, 0.015);
 
-    // Blood splatter particles flying from spike wall
+    // Blood splatter particles
     this.showBloodSplatter(this.player.x, this.player.y);
 
     // Player explosion — scatter body parts as colored rectangles
@@ -741,7 +2307,8 @@ export class GameScene extends Phaser.Scene {
     this.cameras.main.flash(400, 180, 0, 0);
 
     // Show DEATH text
-    const deathText = this.add.text(this.player.x, this.player.y - 60, 'DEATH', {
+    const deathLabel = cause === 'bird' ? 'BIRD STRIKE' : cause === 'drone' || cause === 'boss' ? 'SHOT DOWN' : 'DEATH';
+    const deathText = this.add.text(this.player.x, this.player.y - 60, deathLabel, {
       fontFamily: '"Press Start 2P", monospace',
       fontSize: '28px',
       color: '#ff0000',
@@ -778,21 +2345,55 @@ export class GameScene extends Phaser.Scene {
 
     // After a delay, show results (as failed)
     this.time.delayedCall(2500, () => {
-      this.scene.start('ScoreScene', {
-        mode: this.gameMode,
-        level: this.scoreManager.currentLevel,
-        score: this.scoreManager.currentScore,
-        targetsHit: this.scoreManager.targetsHit,
-        totalTargets: this.targets.length,
-        requiredHits: this.currentLevelConfig.requiredHits,
-        passed: false,
-        vaultHeight: this.vaultPeakHeight,
-        combo: this.scoreManager.maxCombo,
-        spikeDeath: true,
-      });
+      if (this.gameMode === 'arcade') {
+        this.finishArcadeWave(false, cause);
+      } else if (this.gameMode === 'timeattack') {
+        this.finishTimeAttackLevel(false);
+      } else if (this.practice) {
+        this.finishPracticeRun(false);
+      } else if (this.gameMode === 'hotseat') {
+        this.finishHotSeatTurn(false);
+      } else {
+        this.failAttempt('miss', deathLabel, cause);
+      }
     });
   }
 
+  /**
+   * Practice setups change what a level plays like, and in hot seat a ghost would show the
+   * next player their opponent's line on the same course, so neither keeps ghosts
+   */
+  private hasGhosts(): boolean {
+    return !this.practice && this.gameMode !== 'hotseat';
+  }
+
+  /** Race the stored best run on this level, if there is one and ghosts are switched on */
+  private createGhost(): void {
+    const best = this.hasGhosts() && this.ghosts.isEnabled() ? this.ghosts.getBest(this.ghostKey()) : null;
+    if (!best) return;
+    this.ghost = new Ghost(this, best);
+    this.ghosts.markPlayed(this.ghostKey());
+  }
+
+  /** Keep this attempt as the level's ghost if it beats the stored one */
+  private saveGhost(cleared: boolean): boolean {
+    const result: GhostResult = { score: this.scoreManager.currentScore - this.ghostStartScore, cleared };
+    if (this.gameMode === 'timeattack') {
+      // Time attack ghosts set the pace: only cleared levels count, timed the way the clock times them
+      if (!cleared) {
+        this.ghosts.cancelRecording();
+        return false;
+      }
+      const missed = this.scoreManager.totalTargets - this.scoreManager.targetsHit;
+      result.timeMs = this.scoreManager.runTimeMs - this.ghostStartTimeMs + missed * TIME_ATTACK_MISS_PENALTY_MS;
+    }
+    return this.ghosts.finishRecording(this.ghostKey(), result);
+  }
+
+  private ghostKey(): string {
+    return ghostKey(this.gameMode, this.scoreManager.currentLevel, this.daily);
+  }
+
   private showBloodSplatter(x: number, y: number): void {
     // Emit a large burst of red particles
     const bloodEmitter = this.add.particles(x, y, 'blood', {
@@ -857,18 +2458,31 @@ export class GameScene extends Phaser.Scene {
   private spawnTargets(): void {
     const config = this.currentLevelConfig;
     const spread = config.targetSpread;
-
-    // Spawn targets
-    for (let i = 0; i < config.targets; i++) {
-      const x = TARGET_MIN_X + (i / Math.max(config.targets - 1, 1)) * (TARGET_MAX_X - TARGET_MIN_X) * spread;
-      const y = TARGET_MIN_Y + Math.random() * (TARGET_MAX_Y - TARGET_MIN_Y);
-      const target = new Target(this, x, y);
-      target.setVisible(false);
-      target.setDepth(7);
-      this.targets.push(target);
+    const layout = this.rng.stream('layout');
+
+    // Spawn targets, split as evenly as possible between the stations (earlier ones get any extra)
+    let next = 0;
+    for (let station = 0; station < this.stationCount; station++) {
+      const count = Math.floor(config.targets / this.stationCount) + (station < config.targets % this.stationCount ? 1 : 0);
+      const cluster: Target[] = [];
+      for (let j = 0; j < count; j++, next++) {
+        const x = this.stationX(station) + TARGET_MIN_X + (j / Math.max(count - 1, 1)) * (TARGET_MAX_X - TARGET_MIN_X) * spread;
+        const motion = config.targetMotions?.[next] ?? 'static';
+        const type = config.targetTypes?.[next] ?? 'normal';
+        // Keep moving targets' paths inside the target band
+        const margin = motion === 'static' ? 0 : 35;
+        const y = TARGET_MIN_Y + margin + layout.frac() * (TARGET_MAX_Y - TARGET_MIN_Y - margin * 2);
+        // Random start phase so several movers don't march in lockstep
+        const target = new Target(this, x, y, motion, type, layout.frac() * 10);
+        target.setVisible(false);
+        target.setDepth(7);
+        cluster.push(target);
+        this.targets.push(target);
+      }
+      this.stationTargets.push(cluster);
     }
 
-    this.scoreManager.totalTargets = this.targets.length;
+    this.scoreManager.totalTargets = this.targets.filter(t => t.isShootable).length;
   }
 
   // ─── UI ───────────────────────────────────────────
@@ -890,9 +2504,31 @@ export class GameScene extends Phaser.Scene {
       .setScrollFactor(0).setDepth(50);
 
     // Level
-    const modeStr = this.gameMode === 'level' ? 'LVL' : 'WAVE';
-    this.levelText = this.add.text(10, 26, `${modeStr}: ${this.scoreManager.currentLevel}`, fontStyle)
+    this.levelText = this.add.text(10, 26, '', fontStyle)
       .setScrollFactor(0).setDepth(50);
+    this.updateLevelText();
+
+    // Lives (arcade), the run clock (time attack) or attempts at this level (level mode)
+    this.livesText = undefined;
+    this.attemptsText = undefined;
+    this.clockText = undefined;
+    if (this.gameMode === 'arcade') {
+      this.livesText = this.add.text(10, 42, '', { ...fontStyle, color: '#ff6666' })
+        .setScrollFactor(0).setDepth(50);
+    } else if (this.gameMode === 'timeattack') {
+      this.clockText = this.add.text(10, 42, '', { ...fontStyle, color: '#66ddff' })
+        .setScrollFactor(0).setDepth(50);
+    } else if (this.gameMode === 'practice') {
+      this.add.text(10, 42, 'PRACTICE', { ...fontStyle, color: '#aaddff' })
+        .setScrollFactor(0).setDepth(50);
+    } else if (this.gameMode === 'hotseat') {
+      const player = this.scoreManager.players[this.scoreManager.activePlayer];
+      this.add.text(10, 42, `${player.name}'S TURN`, { ...fontStyle, color: '#ffaaff' })
+        .setScrollFactor(0).setDepth(50);
+    } else {
+      this.attemptsText = this.add.text(10, 42, '', { ...fontStyle, color: '#ff8844' })
+        .setScrollFactor(0).setDepth(50);
+    }
 
     // Ammo
     this.ammoText = this.add.text(GAME_WIDTH - 10, 10, '', fontStyle)
@@ -909,6 +2545,14 @@ export class GameScene extends Phaser.Scene {
     this.timerText = this.add.text(GAME_WIDTH - 10, 26, '', fontStyle)
       .setOrigin(1, 0).setScrollFactor(0).setDepth(50);
 
+    // Style multiplier and unbanked trick points
+    this.styleText = this.add.text(10, 58, '', { ...fontStyleSmall, color: '#66ddff' })
+      .setScrollFactor(0).setDepth(50);
+
+    // Wind readout (under the combo)
+    this.windText = this.add.text(GAME_WIDTH / 2, 30, '', fontStyleSmall)
+      .setOrigin(0.5, 0).setScrollFactor(0).setDepth(50);
+
     // Angle indicator
     this.angleIndicator = this.add.graphics();
     this.angleIndicator.setVisible(false).setDepth(15);
@@ -917,6 +2561,44 @@ export class GameScene extends Phaser.Scene {
     this.powerBar = this.add.graphics();
     this.powerBar.setVisible(false).setDepth(15);
 
+    // Stride cadence meter
+    this.strideMeter = this.add.graphics();
+    this.strideMeter.setVisible(false).setDepth(15);
+
+    // Focus meter (under the air timer)
+    this.focusBar = this.add.graphics();
+    this.focusBar.setScrollFactor(0).setDepth(50);
+
+    // Air stamina (under the focus meter)
+    this.staminaBar = this.add.graphics();
+    this.staminaBar.setScrollFactor(0).setDepth(50);
+
+    // Health (under the stamina meter), only on levels with air hazards or a boss
+    this.healthBar = this.add.graphics();
+    this.healthBar.setScrollFactor(0).setDepth(50);
+
+    // Timed power-ups: icon and countdown, under the style readout
+    for (const def of Object.values(POWER_UPS)) {
+      if (def.durationMs <= 0) continue;
+      const icon = this.add.sprite(0, 0, 'powerup', def.frame).setScrollFactor(0).setDepth(50).setVisible(false);
+      const text = this.add.text(0, 0, '', { ...fontStyleSmall, color: def.color })
+        .setOrigin(0, 0.5).setScrollFactor(0).setDepth(50).setVisible(false);
+      this.powerUpIcons.set(def.id, { icon, text });
+    }
+
+    // Boss health, under the wind readout
+    this.bossBar = this.add.graphics();
+    this.bossBar.setScrollFactor(0).setDepth(50);
+    this.bossText = this.add.text(GAME_WIDTH / 2, 44, '', { ...fontStyleSmall, color: '#ffaa33' })
+      .setOrigin(0.5, 0).setScrollFactor(0).setDepth(50);
+
+    // Practice readout of the last vault, bottom left
+    this.practiceText = undefined;
+    if (this.practice) {
+      this.practiceText = this.add.text(10, GAME_HEIGHT - 110, '', { ...fontStyleSmall, color: '#aaddff', lineSpacing: 4 })
+        .setScrollFactor(0).setDepth(50);
+    }
+
     // Instruction text
     this.instructionText = this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 30, '', {
       ...fontStyleSmall,
@@ -926,20 +2608,69 @@ export class GameScene extends Phaser.Scene {
     }).setOrigin(0.5, 0.5).setScrollFactor(0).setDepth(50);
   }
 
+  private updateLevelText(): void {
+    const stationStr = this.stationCount > 1 ? `  STN ${this.station + 1}/${this.stationCount}` : '';
+    if (this.gameMode === 'hotseat') {
+      const round = this.scoreManager.suddenDeath ? 'SUDDEN DEATH' : `ROUND: ${this.scoreManager.hotSeatRound}/${HOTSEAT_ROUNDS}`;
+      this.levelText.setText(`${round}${stationStr}`);
+      return;
+    }
+    const modeStr = this.gameMode === 'arcade' ? (this.daily ? 'DAILY WAVE' : 'WAVE') : 'LVL';
+    const ofStr = this.gameMode === 'timeattack' ? `/${TIME_ATTACK_LEVELS}` : '';
+    this.levelText.setText(`${modeStr}: ${this.scoreManager.currentLevel}${ofStr}${stationStr}`);
+  }
+
   private updateUI(): void {
     this.scoreText.setText(`SCORE: ${this.scoreManager.currentScore}`);
+    this.livesText?.setText(`LIVES: ${this.scoreManager.lives}`);
+    this.clockText?.setText(`TIME: ${formatRunTime(this.scoreManager.runTimeMs)}`);
+    if (this.practiceText) this.updatePracticeReadout();
+    this.attemptsText?.setText(
+      `ATTEMPT ${this.scoreManager.attemptNumber}/${ATTEMPTS_PER_LEVEL}  ${this.scoreManager.getAttemptSheet()}`.trimEnd()
+    );
+
+    const sm = this.scoreManager;
+    if (sm.style > 1 || sm.pendingTrickPoints > 0) {
+      const pending = sm.pendingTrickPoints > 0 ? ` TRICKS ${sm.pendingTrickPoints}` : '';
+      this.styleText.setText(`STYLE x${sm.style.toFixed(2)}${pending}`);
+    } else {
+      this.styleText.setText('');
+    }
+
+    this.updateBossBar();
+    this.updatePowerUpHud();
+
+    const windAbs = Math.abs(this.windSpeed);
+    const windDir = windAbs < 0.05 ? '--' : this.windSpeed > 0 ? '>>' : '<<';
+    this.windText.setText(`WIND ${windDir} ${windAbs.toFixed(1)}m/s`);
     
     if (this.phase === 'shooting' || this.phase === 'airborne') {
-      // Show ammo as pixel bullets
-      let ammoStr = 'AMMO: ';
-      for (let i = 0; i < this.player.maxAmmo; i++) {
-        ammoStr += i < this.player.ammo ? '|' : '.';
+      // Show ammo as pixel bullets, plus what's left in reserve
+      let ammoStr = `${this.weapon.name}: `;
+      if (this.player.isReloading) {
+        const filled = Math.floor(this.player.reloadProgress * this.player.maxAmmo);
+        ammoStr = 'RELOAD ';
+        for (let i = 0; i < this.player.maxAmmo; i++) {
+          ammoStr += i < filled ? '=' : '.';
+        }
+      } else {
+        for (let i = 0; i < this.player.maxAmmo; i++) {
+          ammoStr += i < this.player.ammo ? '|' : '.';
+        }
+      }
+      if (this.player.reserveAmmo > 0) {
+        ammoStr += ` +${this.player.reserveAmmo}`;
       }
       this.ammoText.setText(ammoStr);
+      this.ammoText.setColor(this.player.totalAmmo === 0 ? '#ff4444' : '#f0e68c');
+
+      this.updateFocusBar();
+      this.updateStaminaBar();
+      this.updateHealthBar();
 
       // Timer
       const remaining = Math.max(0, this.maxAirTime - this.airTimer);
-      this.timerText.setText(`TIME: ${remaining.toFixed(1)}`);
+      this.timerText.setText(this.practice?.unlimitedAir ? 'TIME: --' : `TIME: ${remaining.toFixed(1)}`);
       if (remaining < 1) {
         this.timerText.setColor('#ff4444');
       } else {
@@ -956,6 +2687,9 @@ export class GameScene extends Phaser.Scene {
     } else {
       this.ammoText.setText('');
       this.timerText.setText('');
+      this.focusBar.clear();
+      this.staminaBar.clear();
+      this.healthBar.clear();
       this.comboText.setVisible(false);
     }
   }
@@ -1025,6 +2759,154 @@ export class GameScene extends Phaser.Scene {
     this.powerBar.strokeRect(px, py, barW, barH);
   }
 
+  /** Focus meter under the ammo counter; turns white while slow-mo is burning it */
+  private updateFocusBar(): void {
+    this.focusBar.clear();
+
+    const barW = 80;
+    const barH = 6;
+    const px = GAME_WIDTH - 10 - barW;
+    const py = 44;
+    const fill = this.scoreManager.focus / FOCUS_MAX;
+
+    this.focusBar.fillStyle(0x333333, 0.8);
+    this.focusBar.fillRect(px, py, barW, barH);
+    this.focusBar.fillStyle(this.focusActive ? 0xffffff : 0x66ccff, 1);
+    this.focusBar.fillRect(px + 1, py + 1, (barW - 2) * fill, barH - 2);
+    this.focusBar.lineStyle(1, 0xffffff, 0.5);
+    this.focusBar.strokeRect(px, py, barW, barH);
+  }
+
+  private updateStaminaBar(): void {
+    this.staminaBar.clear();
+
+    const barW = 80;
+    const barH = 4;
+    const px = GAME_WIDTH - 10 - barW;
+    const py = 53;
+    const fill = this.airStamina / AIR_STAMINA_MAX;
+
+    this.staminaBar.fillStyle(0x333333, 0.8);
+    this.staminaBar.fillRect(px, py, barW, barH);
+    this.staminaBar.fillStyle(this.airControlLockMs > 0 ? 0x667744 : 0x99ee55, 1);
+    this.staminaBar.fillRect(px + 1, py + 1, (barW - 2) * fill, barH - 2);
+    this.staminaBar.lineStyle(1, 0xffffff, 0.5);
+    this.staminaBar.strokeRect(px, py, barW, barH);
+  }
+
+  private updatePracticeReadout(): void {
+    const launch = this.launchVelocity;
+    const launchStr = launch
+      ? `${Math.round(Math.hypot(launch.vx, launch.vy))} PX/S AT ${Math.round(Phaser.Math.RadToDeg(Math.atan2(-launch.vy, launch.vx)))} DEG`
+      : '--';
+    this.practiceText!.setText([
+      `ANGLE  ${Math.round(this.player.vaultAngle)} DEG`,
+      `POWER  ${Math.round(this.player.vaultPower)}`,
+      `LAUNCH ${launchStr}`,
+      `PEAK   ${(this.vaultPeakHeight / PIXELS_PER_METER).toFixed(2)} M`,
+      'T = RETRY  ESC = SETUP',
+    ].join('\n'));
+  }
+
+  private updateHealthBar(): void {
+    this.healthBar.clear();
+    if (!this.currentLevelConfig.hazards?.length && !this.boss) return;
+
+    // Pixel hearts, right-aligned
+    for (let i = 0; i < ATHLETE_MAX_HEALTH; i++) {
+      const x = GAME_WIDTH - 14 - (ATHLETE_MAX_HEALTH - 1 - i) * 14;
+      const y = 62;
+      this.healthBar.fillStyle(i < this.player.health ? 0xff3344 : 0x444455, 1);
+      this.healthBar.fillRect(x - 5, y, 4, 3);
+      this.healthBar.fillRect(x + 1, y, 4, 3);
+      this.healthBar.fillRect(x - 5, y + 2, 10, 3);
+      this.healthBar.fillRect(x - 3, y + 5, 6, 2);
+      this.healthBar.fillRect(x - 1, y + 7, 2, 1);
+    }
+  }
+
+  private updatePowerUpHud(): void {
+    let slot = 0;
+    for (const [id, { icon, text }] of this.powerUpIcons) {
+      const left = this.powerUpTimers.get(id);
+      icon.setVisible(left !== undefined);
+      text.setVisible(left !== undefined);
+      if (left === undefined) continue;
+
+      const x = 18 + slot * 52;
+      const y = this.styleText.y + 22;
+      icon.setPosition(x, y);
+      text.setPosition(x + 11, y);
+      text.setText((left / 1000).toFixed(1));
+      // Blink through the last second
+      icon.setAlpha(left < 1000 && Math.floor(left / 120) % 2 === 0 ? 0.3 : 1);
+      slot++;
+    }
+  }
+
+  private updateBossBar(): void {
+    this.bossBar.clear();
+    if (!this.boss) {
+      this.bossText.setText('');
+      return;
+    }
+
+    const boss = this.boss;
+    const barW = 240;
+    const barH = 8;
+    const px = GAME_WIDTH / 2 - barW / 2;
+    const py = 56;
+    const fill = boss.health / boss.maxHealth;
+    this.bossText.setText(boss.isDefeated ? `${boss.def.name} DEFEATED` : `${boss.def.name} - ${boss.currentPhase.name}`);
+
+    this.bossBar.fillStyle(0x333333, 0.8);
+    this.bossBar.fillRect(px, py, barW, barH);
+    this.bossBar.fillStyle(fill > 0.5 ? 0xff8833 : fill > 0.2 ? 0xff5522 : 0xff2222, 1);
+    this.bossBar.fillRect(px + 1, py + 1, (barW - 2) * fill, barH - 2);
+    // Notches between phases
+    this.bossBar.fillStyle(0x000000, 1);
+    let hp = 0;
+    for (const phase of boss.def.phases.slice(0, -1)) {
+      hp += phase.weakPoints.length * boss.def.weakPointHp;
+      this.bossBar.fillRect(px + barW * (1 - hp / boss.maxHealth), py, 1, barH);
+    }
+    this.bossBar.lineStyle(1, 0xffffff, 0.5);
+    this.bossBar.strokeRect(px, py, barW, barH);
+  }
+
+  /** Timing bar over the runner: the marker should hit the green band on each stride */
+  private updateStrideMeter(): void {
+    this.strideMeter.setVisible(true);
+    this.strideMeter.clear();
+
+    const barW = 48;
+    const barH = 5;
+    const px = this.player.x - barW / 2;
+    const py = this.player.y - 84;
+    // Bar spans 0..2x the ideal interval; the sweet spot sits in the middle
+    const toX = (phase: number) => px + Phaser.Math.Clamp(phase / 2, 0, 1) * barW;
+
+    this.strideMeter.fillStyle(0x333333, 0.8);
+    this.strideMeter.fillRect(px, py, barW, barH);
+
+    const goodL = toX(1 - STRIDE_GOOD_WINDOW);
+    const goodR = toX(1 + STRIDE_GOOD_WINDOW);
+    this.strideMeter.fillStyle(0x2a8a2a, 1);
+    this.strideMeter.fillRect(goodL, py + 1, goodR - goodL, barH - 2);
+
+    const perfL = toX(1 - STRIDE_PERFECT_WINDOW);
+    const perfR = toX(1 + STRIDE_PERFECT_WINDOW);
+    this.strideMeter.fillStyle(0x44ff44, 1);
+    this.strideMeter.fillRect(perfL, py + 1, perfR - perfL, barH - 2);
+
+    const marker = toX(this.player.getStridePhase(this.time.now));
+    this.strideMeter.fillStyle(this.player.isStumbling ? 0xff4444 : 0xffffff, 1);
+    this.strideMeter.fillRect(marker - 1, py - 2, 2, barH + 4);
+
+    this.strideMeter.lineStyle(1, 0xffffff, 0.5);
+    this.strideMeter.strokeRect(px, py, barW, barH);
+  }
+
   private showInstruction(text: string): void {
     this.instructionText.setText(text);
     this.instructionText.setAlpha(1);
@@ -1088,8 +2970,9 @@ export class GameScene extends Phaser.Scene {
   }
 
   private showPointPopup(x: number, y: number, points: number, isBullseye: boolean, label?: string): void {
-    const text = label ? `${label}\n+${points}` : `+${points}`;
-    const color = isBullseye ? '#ffdd44' : '#ffffff';
+    const amount = points < 0 ? `${points}` : `+${points}`;
+    const text = label ? `${label}\n${amount}` : amount;
+    const color = points < 0 ? '#ff4444' : isBullseye ? '#ffdd44' : '#ffffff';
     const fontSize = isBullseye ? '12px' : '10px';
 
     const popup = this.add.text(x, y, text, {
@@ -1135,6 +3018,56 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  private showFloatingText(x: number, y: number, text: string, color: string): void {
+    const label = this.add.text(x, y, text, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '8px',
+      color,
+      stroke: '#000000',
+      strokeThickness: 2,
+    });
+    label.setOrigin(0.5, 0.5).setDepth(60);
+
+    this.tweens.add({
+      targets: label,
+      y: y - 20,
+      alpha: 0,
+      duration: 700,
+      ease: 'Cubic.easeOut',
+      onComplete: () => label.destroy(),
+    });
+  }
+
+  private showSpark(x: number, y: number): void {
+    for (let i = 0; i < 4; i++) {
+      const p = this.add.rectangle(x, y, 2, 2, i % 2 ? 0xffee88 : 0xffffff);
+      p.setDepth(15);
+      this.tweens.add({
+        targets: p,
+        x: x + Phaser.Math.Between(-12, 12),
+        y: y - Phaser.Math.Between(2, 12),
+        alpha: 0,
+        duration: Phaser.Math.Between(150, 300),
+        onComplete: () => p.destroy(),
+      });
+    }
+  }
+
+  private showBlast(x: number, y: number, radius: number): void {
+    const ring = this.add.circle(x, y, radius, 0xffaa33, 0.5);
+    ring.setStrokeStyle(3, 0xffdd44);
+    ring.setDepth(14).setScale(0.2);
+    this.tweens.add({
+      targets: ring,
+      scale: 1,
+      alpha: 0,
+      duration: 350,
+      ease: 'Cubic.easeOut',
+      onComplete: () => ring.destroy(),
+    });
+    this.cameras.main.shake(150, 0.01);
+  }
+
   private showTargetExplosion(x: number, y: number): void {
     // Create a bunch of pixel particles
     const colors = [0xff4444, 0xffdd44, 0xffffff, 0xff8844, 0xcc3333];
@@ -0,0 +1,201 @@
+import Phaser from 'phaser';
+import {
+  GAME_WIDTH, GAME_HEIGHT, COLORS, HOTSEAT_MIN_PLAYERS, HOTSEAT_MAX_PLAYERS, HOTSEAT_ROUNDS, HOTSEAT_NAME_LENGTH,
+} from '../utils/constants';
+import { ScoreManager } from '../managers/ScoreManager';
+import { RandomManager } from '../managers/RandomManager';
+import { SoundGenerator } from '../utils/SoundGenerator';
+import { MusicEngine } from '../utils/MusicEngine';
+
+/**
+ * Hot-seat setup: how many players and what they're called. Names are typed straight in,
+ * so this screen steers with the arrow keys instead of WASD.
+ */
+export class HotSeatScene extends Phaser.Scene {
+  private playerCount: number = HOTSEAT_MIN_PLAYERS;
+  private names: string[] = [];
+  private rowTexts: Phaser.GameObjects.Text[] = [];
+  private selected: number = 0;
+  private leaving: boolean = false;
+
+  constructor() {
+    super({ key: 'HotSeatScene' });
+  }
+
+  init(): void {
+    this.playerCount = HOTSEAT_MIN_PLAYERS;
+    this.names = Array.from({ length: HOTSEAT_MAX_PLAYERS }, () => '');
+    this.rowTexts = [];
+    this.selected = 0;
+    this.leaving = false;
+  }
+
+  create(): void {
+    this.input.setDefaultCursor('default');
+    this.cameras.main.fadeIn(300, 0, 0, 0);
+    MusicEngine.getInstance().play('menu');
+
+    this.add.rectangle(GAME_WIDTH / 2, GAME_HEIGHT / 2, GAME_WIDTH, GAME_HEIGHT, COLORS.DARK);
+
+    this.add.text(GAME_WIDTH / 2, 50, 'HOT SEAT', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '20px',
+      color: '#ffaaff',
+      stroke: '#000000',
+      strokeThickness: 4,
+    }).setOrigin(0.5, 0.5);
+
+    this.add.text(GAME_WIDTH / 2, 80, `${HOTSEAT_ROUNDS} rounds, one run each, same course for everyone`, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '8px',
+      color: '#888888',
+    }).setOrigin(0.5, 0.5);
+
+    // PLAYERS, one row per possible name, START, BACK
+    const rowCount = HOTSEAT_MAX_PLAYERS + 3;
+    for (let i = 0; i < rowCount; i++) {
+      const text = this.add.text(GAME_WIDTH / 2, 140 + i * 34, '', {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '12px',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+      text.on('pointerover', () => {
+        if (!this.isRowActive(i)) return;
+        this.selected = i;
+        this.refresh();
+      });
+      text.on('pointerdown', () => {
+        if (!this.isRowActive(i)) return;
+        this.selected = i;
+        if (i === 0) this.changeCount(1);
+        else this.activate();
+      });
+      this.rowTexts.push(text);
+    }
+
+    this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 20, 'UP/DOWN: choose | LEFT/RIGHT: players | type names | ENTER: start | ESC: menu', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '7px',
+      color: '#666666',
+    }).setOrigin(0.5, 0.5);
+
+    this.input.keyboard!.on('keydown', this.onKey, this);
+    this.events.once('shutdown', () => this.input.keyboard!.off('keydown', this.onKey, this));
+
+    this.refresh();
+  }
+
+  private onKey(event: KeyboardEvent): void {
+    if (this.leaving) return;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        this.move(1);
+        return;
+      case 'ArrowUp':
+        this.move(-1);
+        return;
+      case 'ArrowLeft':
+        if (this.selected === 0) this.changeCount(-1);
+        return;
+      case 'ArrowRight':
+        if (this.selected === 0) this.changeCount(1);
+        return;
+      case 'Enter':
+        this.activate();
+        return;
+      case 'Escape':
+        this.leave(false);
+        return;
+    }
+
+    // Typing edits the selected name
+    const player = this.selected - 1;
+    if (player < 0 || player >= this.playerCount) return;
+    if (event.key === 'Backspace') {
+      this.names[player] = this.names[player].slice(0, -1);
+    } else if (/^[a-z0-9 ]$/i.test(event.key) && this.names[player].length < HOTSEAT_NAME_LENGTH) {
+      this.names[player] += event.key.toUpperCase();
+    } else {
+      return;
+    }
+    this.playSound('sfx_select', 0.2);
+    this.refresh();
+  }
+
+  /** Name rows past the player count are greyed out and skipped */
+  private isRowActive(row: number): boolean {
+    return row <= this.playerCount || row > HOTSEAT_MAX_PLAYERS;
+  }
+
+  private move(dir: number): void {
+    const rows = this.rowTexts.length;
+    do {
+      this.selected = (this.selected + dir + rows) % rows;
+    } while (!this.isRowActive(this.selected));
+    this.playSound('sfx_select', 0.3);
+    this.refresh();
+  }
+
+  private changeCount(dir: number): void {
+    const count = this.playerCount + dir;
+    // Clicking the row cycles round
+    this.playerCount = count > HOTSEAT_MAX_PLAYERS ? HOTSEAT_MIN_PLAYERS : Math.max(HOTSEAT_MIN_PLAYERS, count);
+    this.playSound('sfx_select', 0.3);
+    this.refresh();
+  }
+
+  /** ENTER starts from any row except BACK */
+  private activate(): void {
+    this.leave(this.selected !== this.rowTexts.length - 1);
+  }
+
+  private leave(start: boolean): void {
+    this.leaving = true;
+    this.cameras.main.fadeOut(300, 0, 0, 0);
+    this.cameras.main.once('camerafadeoutcomplete', () => {
+      if (!start) {
+        this.scene.start('MenuScene');
+        return;
+      }
+      const names = this.names
+        .slice(0, this.playerCount)
+        .map((name, i) => name.trim() || `P${i + 1}`);
+      const sm = ScoreManager.getInstance();
+      sm.startHotSeat(names);
+      // One seed for the whole game; each round re-seeds from it, so every turn in a round plays the same course
+      RandomManager.getInstance().newRun();
+      this.scene.start('GameScene', { mode: 'hotseat', level: sm.hotSeatRound });
+    });
+  }
+
+  private refresh(): void {
+    this.rowTexts.forEach((text, i) => {
+      const isSelected = i === this.selected;
+      let label: string;
+      let color = isSelected ? '#f0e68c' : '#ffffff';
+
+      if (i === 0) {
+        label = isSelected ? `PLAYERS: < ${this.playerCount} >` : `PLAYERS: ${this.playerCount}`;
+      } else if (i <= HOTSEAT_MAX_PLAYERS) {
+        const name = this.names[i - 1];
+        const cursor = isSelected && name.length < HOTSEAT_NAME_LENGTH ? '_' : '';
+        label = `PLAYER ${i}: ${(name + cursor).padEnd(HOTSEAT_NAME_LENGTH, '.')}`;
+        if (!this.isRowActive(i)) color = '#444444';
+      } else {
+        const action = i === this.rowTexts.length - 1 ? 'BACK' : 'START';
+        label = isSelected ? `> ${action} <` : action;
+        if (!isSelected) color = '#aaddff';
+      }
+
+      text.setText(label);
+      text.setColor(color);
+    });
+  }
+
+  private playSound(key: string, volume: number = 0.5): void {
+    SoundGenerator.getInstance().play(key, volume);
+  }
+}
@@ -1,18 +1,29 @@
 import Phaser from 'phaser';
 import { GAME_WIDTH, GAME_HEIGHT, COLORS } from '../utils/constants';
-import { ScoreManager } from '../managers/ScoreManager';
+import { ScoreManager, GameMode, getLocalDateKey, formatRunTime } from '../managers/ScoreManager';
+import { GhostManager } from '../managers/GhostManager';
 import { SoundGenerator } from '../utils/SoundGenerator';
 import { MusicEngine } from '../utils/MusicEngine';
 
+type MenuPage = 'main' | 'mode';
+
+const MENU_OPTIONS: Record<MenuPage, string[]> = {
+  main: ['PLAY', 'HIGH SCORES', 'HOW TO PLAY'],
+  mode: ['LEVEL MODE', 'ARCADE', 'TIME ATTACK', 'DAILY CHALLENGE', 'HOT SEAT', 'PRACTICE', 'BACK'],
+};
+
 export class MenuScene extends Phaser.Scene {
   private selectedOption: number = 0;
   private menuItems: Phaser.GameObjects.Text[] = [];
+  private menuPage: MenuPage = 'main';
   private wKey!: Phaser.Input.Keyboard.Key;
   private sKey!: Phaser.Input.Keyboard.Key;
   private enterKey!: Phaser.Input.Keyboard.Key;
   private mKey!: Phaser.Input.Keyboard.Key;
+  private gKey!: Phaser.Input.Keyboard.Key;
   private titleBounce: number = 0;
   private muteIcon?: Phaser.GameObjects.Text;
+  private ghostIcon?: Phaser.GameObjects.Text;
   private overlayActive: boolean = false;
 
   constructor() {
@@ -24,11 +35,15 @@ export class MenuScene extends Phaser.Scene {
     this.input.setDefaultCursor('default');
     this.selectedOption = 0;
     this.menuItems = [];
+    this.menuPage = 'main';
     this.overlayActive = false;
+    // Back at the menu, any hot-seat game is over
+    ScoreManager.getInstance().endHotSeat();
     this.wKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.W);
     this.sKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.S);
     this.enterKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER);
     this.mKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.M);
+    this.gKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.G);
 
     // Start menu music
     MusicEngine.getInstance().play('menu');
@@ -65,39 +80,7 @@ export class MenuScene extends Phaser.Scene {
     }).setOrigin(0.5, 0.5);
 
     // Menu items
-    const menuStartY = 220;
-    const menuSpacing = 35;
-    const options = [
-      'PLAY',
-      'HIGH SCORES',
-      'HOW TO PLAY',
-    ];
-
-    options.forEach((label, i) => {
-      const item = this.add.text(GAME_WIDTH / 2, menuStartY + i * menuSpacing, label, {
-        fontFamily: '"Press Start 2P", monospace',
-        fontSize: '14px',
-        color: '#ffffff',
-        stroke: '#000000',
-        strokeThickness: 2,
-      }).setOrigin(0.5, 0.5);
-      
-      item.setInteractive({ useHandCursor: true });
-      item.on('pointerover', () => {
-        if (this.overlayActive) return;
-        this.selectedOption = i;
-        this.updateSelection();
-      });
-      item.on('pointerdown', () => {
-        if (this.overlayActive) return;
-        this.selectedOption = i;
-        this.selectOption();
-      });
-      
-      this.menuItems.push(item);
-    });
-
-    this.updateSelection();
+    this.buildMenuItems();
 
     // Decorative gun sprite
     const gunDecor = this.add.sprite(GAME_WIDTH / 2 + 140, titleY + 20, 'gun');
@@ -113,8 +96,16 @@ export class MenuScene extends Phaser.Scene {
       color: '#666666',
     }).setOrigin(1, 0);
 
+    // Ghost run setting
+    this.ghostIcon = this.add.text(GAME_WIDTH - 10, 22, '', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '7px',
+      color: '#666666',
+    }).setOrigin(1, 0);
+    this.updateGhostIcon();
+
     // Footer
-    this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 20, 'W/S: navigate | ENTER: select | M: music', {
+    this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 20, 'W/S: navigate | ENTER: select | M: music | G: ghosts', {
       fontFamily: '"Press Start 2P", monospace',
       fontSize: '7px',
       color: '#666666',
@@ -168,6 +159,57 @@ export class MenuScene extends Phaser.Scene {
         this.muteIcon.setText(muted ? 'M: OFF' : 'M: ON');
       }
     }
+    // Toggle ghost runs
+    if (Phaser.Input.Keyboard.JustDown(this.gKey)) {
+      GhostManager.getInstance().toggleEnabled();
+      this.updateGhostIcon();
+    }
+  }
+
+  private updateGhostIcon(): void {
+    this.ghostIcon?.setText(GhostManager.getInstance().isEnabled() ? 'G: GHOSTS ON' : 'G: GHOSTS OFF');
+  }
+
+  /** (Re)create the menu entries for the current page */
+  private buildMenuItems(): void {
+    this.menuItems.forEach(item => item.destroy());
+    this.menuItems = [];
+    this.selectedOption = 0;
+
+    const menuStartY = 220;
+    const menuSpacing = MENU_OPTIONS[this.menuPage].length > 6 ? 30 : 35; // squeeze the longer mode list
+    const options = MENU_OPTIONS[this.menuPage];
+
+    options.forEach((label, i) => {
+      const item = this.add.text(GAME_WIDTH / 2, menuStartY + i * menuSpacing, label, {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '14px',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0.5, 0.5);
+      
+      item.setInteractive({ useHandCursor: true });
+      item.on('pointerover', () => {
+        if (this.overlayActive) return;
+        this.selectedOption = i;
+        this.updateSelection();
+      });
+      item.on('pointerdown', () => {
+        if (this.overlayActive) return;
+        this.selectedOption = i;
+        this.selectOption();
+      });
+      
+      this.menuItems.push(item);
+    });
+
+    this.updateSelection();
+  }
+
+  private showPage(page: MenuPage): void {
+    this.menuPage = page;
+    this.buildMenuItems();
   }
 
   private playSound(key: string, volume: number = 0.5): void {
@@ -190,12 +232,14 @@ export class MenuScene extends Phaser.Scene {
   }
 
   private selectOption(): void {
+    if (this.menuPage === 'mode') {
+      this.selectMode();
+      return;
+    }
+
     switch (this.selectedOption) {
-      case 0: // Play
-        this.cameras.main.fadeOut(300, 0, 0, 0);
-        this.cameras.main.once('camerafadeoutcomplete', () => {
-          this.scene.start('GameScene', { mode: 'level', level: 1 });
-        });
+      case 0: // Play → pick a mode
+        this.showPage('mode');
         break;
       case 1: // High Scores
         this.showHighScores();
@@ -206,6 +250,88 @@ export class MenuScene extends Phaser.Scene {
     }
   }
 
+  private selectMode(): void {
+    switch (this.selectedOption) {
+      case 0: // Level mode
+        this.startGame('level');
+        break;
+      case 1: // Arcade
+        this.startGame('arcade');
+        break;
+      case 2: // Time attack
+        this.startGame('timeattack');
+        break;
+      case 3: // Daily challenge
+        this.startDaily();
+        break;
+      case 4: // Hot seat
+        this.openScene('HotSeatScene');
+        break;
+      case 5: // Practice range
+        this.openScene('PracticeScene');
+        break;
+      case 6: // Back
+        this.showPage('main');
+        break;
+    }
+  }
+
+  /** Modes with their own setup screen */
+  private openScene(key: 'HotSeatScene' | 'PracticeScene'): void {
+    this.overlayActive = true;
+    this.cameras.main.fadeOut(300, 0, 0, 0);
+    this.cameras.main.once('camerafadeoutcomplete', () => this.scene.start(key));
+  }
+
+  private startGame(mode: GameMode, daily?: string): void {
+    this.overlayActive = true;
+    this.cameras.main.fadeOut(300, 0, 0, 0);
+    this.cameras.main.once('camerafadeoutcomplete', () => {
+      this.scene.start('GameScene', { mode, level: 1, daily });
+    });
+  }
+
+  /** Arcade rules on a course seeded from today's date: one scored run a day */
+  private startDaily(): void {
+    const sm = ScoreManager.getInstance();
+    const today = getLocalDateKey();
+    if (sm.hasPlayedDaily(today)) {
+      this.showDailyDone(today);
+      return;
+    }
+    sm.startDaily(today);
+    this.startGame('arcade', today);
+  }
+
+  private showDailyDone(today: string): void {
+    this.overlayActive = true;
+    const overlay = this.add.rectangle(GAME_WIDTH / 2, GAME_HEIGHT / 2, 460, 140, 0x111122, 0.95);
+    overlay.setDepth(100);
+
+    const best = ScoreManager.getInstance().getDailyScores()[today]?.[0];
+    const lines = [
+      `DAILY CHALLENGE ${today}`,
+      '',
+      best ? `Today's run: ${best.score} (wave ${best.level})` : 'Today\'s run has been used',
+      'A new course unlocks tomorrow!',
+      '',
+      'Press any key to go back',
+    ];
+    const textObj = this.add.text(GAME_WIDTH / 2, GAME_HEIGHT / 2, lines.join('\n'), {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '8px',
+      color: '#dddddd',
+      align: 'center',
+      lineSpacing: 6,
+    }).setOrigin(0.5, 0.5).setDepth(101);
+
+    this.input.keyboard!.once('keydown', () => {
+      overlay.destroy();
+      textObj.destroy();
+      this.overlayActive = false;
+    });
+  }
+
   private showHighScores(): void {
     this.overlayActive = true;
     const overlay = this.add.rectangle(GAME_WIDTH / 2, GAME_HEIGHT / 2, GAME_WIDTH - 80, GAME_HEIGHT - 60, 0x111122, 0.95);
@@ -233,6 +359,71 @@ export class MenuScene extends Phaser.Scene {
     }).setOrigin(0.5, 0).setDepth(101);
     yPos += 24;
 
+    // Arcade high scores
+    const arcadeTitle = this.add.text(GAME_WIDTH / 2, yPos, 'ARCADE', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#e94560',
+    }).setOrigin(0.5, 0).setDepth(101);
+    yPos += 20;
+
+    const arcadeScores = sm.getHighScores('arcade').slice(0, 5);
+    const arcadeLines = arcadeScores.length > 0
+      ? arcadeScores.map((e, i) =>
+          `${String(i + 1).padStart(2, ' ')}. ${String(e.score).padStart(6, ' ')}  WAVE ${String(e.level).padEnd(3, ' ')} ${e.date}`)
+      : ['No arcade runs yet'];
+    const arcadeEntries = this.add.text(GAME_WIDTH / 2, yPos, arcadeLines.join('\n'), {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '8px',
+      color: arcadeScores.length > 0 ? '#dddddd' : '#888888',
+      lineSpacing: 6,
+    }).setOrigin(0.5, 0).setDepth(101);
+
+    // Time attack, fastest first
+    yPos = arcadeEntries.y + arcadeEntries.height + 12;
+    const timeTitle = this.add.text(GAME_WIDTH / 2, yPos, 'TIME ATTACK', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#f0e68c',
+    }).setOrigin(0.5, 0).setDepth(101);
+    yPos += 20;
+
+    const timeRuns = sm.getHighScores('timeattack').slice(0, 3);
+    const timeLines = timeRuns.length > 0
+      ? timeRuns.map((e, i) =>
+          `${String(i + 1).padStart(2, ' ')}. ${formatRunTime(e.timeMs ?? 0).padStart(8, ' ')}  ${e.date}`)
+      : ['No time attack runs yet'];
+    const timeEntries = this.add.text(GAME_WIDTH / 2, yPos, timeLines.join('\n'), {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '8px',
+      color: timeRuns.length > 0 ? '#dddddd' : '#888888',
+      lineSpacing: 6,
+    }).setOrigin(0.5, 0).setDepth(101);
+
+    // Daily challenge, most recent days first
+    yPos = timeEntries.y + timeEntries.height + 12;
+    const dailyTitle = this.add.text(GAME_WIDTH / 2, yPos, 'DAILY CHALLENGE', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#66ccff',
+    }).setOrigin(0.5, 0).setDepth(101);
+    yPos += 20;
+
+    const dailyScores = sm.getDailyScores();
+    const days = Object.keys(dailyScores).sort().reverse().slice(0, 3);
+    const dailyLines = days.length > 0
+      ? days.map(day => {
+          const best = dailyScores[day][0];
+          return `${day}  ${String(best.score).padStart(6, ' ')}  WAVE ${String(best.level).padEnd(3, ' ')}`;
+        })
+      : ['No daily runs yet'];
+    const dailyEntries = this.add.text(GAME_WIDTH / 2, yPos, dailyLines.join('\n'), {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '8px',
+      color: days.length > 0 ? '#dddddd' : '#888888',
+      lineSpacing: 6,
+    }).setOrigin(0.5, 0).setDepth(101);
+
     const backText = this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 50, 'Press any key to go back', {
       fontFamily: '"Press Start 2P", monospace',
       fontSize: '8px',
@@ -243,6 +434,12 @@ export class MenuScene extends Phaser.Scene {
       overlay.destroy();
       title.destroy();
       bestLevelEntry.destroy();
+      arcadeTitle.destroy();
+      arcadeEntries.destroy();
+      timeTitle.destroy();
+      timeEntries.destroy();
+      dailyTitle.destroy();
+      dailyEntries.destroy();
       backText.destroy();
       this.scene.restart();
     });
@@ -257,25 +454,40 @@ export class MenuScene extends Phaser.Scene {
       'HOW TO PLAY',
       '',
       '1. RUNNING',
-      '   Hold D to build speed',
+      '   Alternate A/D in rhythm for speed',
+      '   Rushed or double steps = stumble',
       '',
       '2. PLANTING THE POLE',
       '   Press SPACE at the red marker',
+      '   Early plant or stopping = FOUL',
       '',
       '3. VAULT SETUP',
       '   W/S adjusts launch angle',
       '   Hold SPACE to charge power',
       '   Release SPACE to vault!',
+      '   Wind (see windsock) pushes you + shots',
       '',
       '4. MID-AIR SHOOTING',
-      '   Aim with MOUSE',
-      '   Click to SHOOT targets',
+      '   Aim with MOUSE, click to SHOOT',
+      '   R to reload - ammo is limited!',
+      '   Pick your gun before each run',
+      '   SHIFT slow-mo, A/D to steer (stamina)',
+      '   Q/E/F/C tricks - land to bank them',
+      '   Shoot down birds + drones, pop balloons',
+      '   Fly through capsules for power-ups',
       '',
       '5. SCORING',
-      '   Hit targets for points',
-      '   Chain hits for combos!',
+      '   Inner rings score more; chain combos!',
+      '   Gold x3, steel takes 3 hits,',
+      '   blue civilians are NO SHOOT!',
       '   Higher vault = bonus points',
+      '   Clear the crossbar, don\'t knock it!',
+      '   3 attempts per level: fouls + misses',
       '',
+      'ARCADE: endless waves, 3 lives.',
+      '   Hit half the targets to clear a wave',
+      'TIME ATTACK: levels 1-5 against the clock',
+      'HOT SEAT: 2-4 players, one shot a round',
       'Press any key to go back',
     ];
 
@@ -283,7 +495,7 @@ export class MenuScene extends Phaser.Scene {
       fontFamily: '"Press Start 2P", monospace',
       fontSize: '8px',
       color: '#dddddd',
-      lineSpacing: 4,
+      lineSpacing: 3,
     }).setDepth(101);
 
     // Color the title
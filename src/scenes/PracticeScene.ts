@@ -0,0 +1,205 @@
+import Phaser from 'phaser';
+import { GAME_WIDTH, GAME_HEIGHT, COLORS } from '../utils/constants';
+import { LevelManager, PracticeSettings } from '../managers/LevelManager';
+import { SoundGenerator } from '../utils/SoundGenerator';
+import { MusicEngine } from '../utils/MusicEngine';
+
+/** One adjustable line on the setup sheet */
+interface PracticeRow {
+  label: string;
+  value: (s: PracticeSettings) => string;
+  adjust?: (s: PracticeSettings, dir: number) => void; // missing = an action row
+}
+
+const MAX_PRACTICE_LEVEL = 20;
+const MAX_PRACTICE_TARGETS = 12;
+
+/**
+ * Practice range setup: any level straight away, with its line-up, air time and spread
+ * tweakable. Runs from here never reach the ScoreScene, so no records are touched.
+ */
+export class PracticeScene extends Phaser.Scene {
+  private settings!: PracticeSettings;
+  private rows: PracticeRow[] = [];
+  private rowTexts: Phaser.GameObjects.Text[] = [];
+  private selected: number = 0;
+  private wKey!: Phaser.Input.Keyboard.Key;
+  private sKey!: Phaser.Input.Keyboard.Key;
+  private aKey!: Phaser.Input.Keyboard.Key;
+  private dKey!: Phaser.Input.Keyboard.Key;
+  private enterKey!: Phaser.Input.Keyboard.Key;
+  private escKey!: Phaser.Input.Keyboard.Key;
+  private leaving: boolean = false;
+
+  constructor() {
+    super({ key: 'PracticeScene' });
+  }
+
+  /** Coming back from a practice run keeps its settings */
+  init(data: { settings?: PracticeSettings }): void {
+    this.settings = data.settings ? { ...data.settings } : LevelManager.getInstance().getPracticeDefaults(1);
+    this.selected = 0;
+    this.rowTexts = [];
+    this.leaving = false;
+  }
+
+  create(): void {
+    this.input.setDefaultCursor('default');
+    this.cameras.main.fadeIn(300, 0, 0, 0);
+    MusicEngine.getInstance().play('menu');
+
+    this.wKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.W);
+    this.sKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.S);
+    this.aKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.A);
+    this.dKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.D);
+    this.enterKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER);
+    this.escKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ESC);
+
+    this.add.rectangle(GAME_WIDTH / 2, GAME_HEIGHT / 2, GAME_WIDTH, GAME_HEIGHT, COLORS.DARK);
+
+    this.add.text(GAME_WIDTH / 2, 50, 'PRACTICE RANGE', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '20px',
+      color: '#f0e68c',
+      stroke: '#000000',
+      strokeThickness: 4,
+    }).setOrigin(0.5, 0.5);
+
+    this.add.text(GAME_WIDTH / 2, 80, 'No scores or records are kept here', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '8px',
+      color: '#888888',
+    }).setOrigin(0.5, 0.5);
+
+    this.rows = this.buildRows();
+    this.rows.forEach((row, i) => {
+      const text = this.add.text(GAME_WIDTH / 2, 130 + i * 32, '', {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '12px',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+      text.on('pointerover', () => {
+        this.selected = i;
+        this.refresh();
+      });
+      text.on('pointerdown', () => {
+        this.selected = i;
+        if (row.adjust) this.adjust(1);
+        else this.activate();
+      });
+      this.rowTexts.push(text);
+    });
+
+    this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 20, 'W/S: choose | A/D: change | ENTER: start | ESC: menu', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '7px',
+      color: '#666666',
+    }).setOrigin(0.5, 0.5);
+
+    this.refresh();
+  }
+
+  update(): void {
+    if (this.leaving) return;
+
+    if (Phaser.Input.Keyboard.JustDown(this.sKey)) {
+      this.selected = (this.selected + 1) % this.rows.length;
+      this.playSound('sfx_select', 0.3);
+      this.refresh();
+    }
+    if (Phaser.Input.Keyboard.JustDown(this.wKey)) {
+      this.selected = (this.selected - 1 + this.rows.length) % this.rows.length;
+      this.playSound('sfx_select', 0.3);
+      this.refresh();
+    }
+    if (Phaser.Input.Keyboard.JustDown(this.aKey)) this.adjust(-1);
+    if (Phaser.Input.Keyboard.JustDown(this.dKey)) this.adjust(1);
+    if (Phaser.Input.Keyboard.JustDown(this.enterKey)) this.activate();
+    if (Phaser.Input.Keyboard.JustDown(this.escKey)) this.leave('MenuScene');
+  }
+
+  private buildRows(): PracticeRow[] {
+    const lm = LevelManager.getInstance();
+    return [
+      {
+        label: 'LEVEL',
+        value: s => `${s.level}`,
+        // A new level brings its own numbers with it; the switches stay as they were
+        adjust: (s, dir) => {
+          const level = Phaser.Math.Clamp(s.level + dir, 1, MAX_PRACTICE_LEVEL);
+          this.settings = { ...lm.getPracticeDefaults(level), spikeWall: s.spikeWall, unlimitedAir: s.unlimitedAir };
+        },
+      },
+      {
+        label: 'TARGETS',
+        value: s => `${s.targets}`,
+        adjust: (s, dir) => { s.targets = Phaser.Math.Clamp(s.targets + dir, 1, MAX_PRACTICE_TARGETS); },
+      },
+      {
+        label: 'AIR TIME',
+        value: s => `${s.airTime.toFixed(1)}s`,
+        adjust: (s, dir) => { s.airTime = Phaser.Math.Clamp(s.airTime + dir * 0.5, 1.5, 8); },
+      },
+      {
+        label: 'SPREAD',
+        value: s => s.targetSpread.toFixed(1),
+        adjust: (s, dir) => { s.targetSpread = Phaser.Math.Clamp(Math.round((s.targetSpread + dir * 0.1) * 10) / 10, 0.5, 1.5); },
+      },
+      {
+        label: 'SPIKE WALL',
+        value: s => (s.spikeWall ? 'ON' : 'OFF'),
+        adjust: s => { s.spikeWall = !s.spikeWall; },
+      },
+      {
+        label: 'UNLIMITED AIR',
+        value: s => (s.unlimitedAir ? 'ON' : 'OFF'),
+        adjust: s => { s.unlimitedAir = !s.unlimitedAir; },
+      },
+      { label: 'START', value: () => '' },
+      { label: 'BACK', value: () => '' },
+    ];
+  }
+
+  private adjust(dir: number): void {
+    const row = this.rows[this.selected];
+    if (!row.adjust) return;
+    row.adjust(this.settings, dir);
+    this.playSound('sfx_select', 0.3);
+    this.refresh();
+  }
+
+  /** ENTER starts from any row except BACK */
+  private activate(): void {
+    this.leave(this.rows[this.selected].label === 'BACK' ? 'MenuScene' : 'GameScene');
+  }
+
+  private leave(key: 'MenuScene' | 'GameScene'): void {
+    this.leaving = true;
+    this.cameras.main.fadeOut(300, 0, 0, 0);
+    this.cameras.main.once('camerafadeoutcomplete', () => {
+      if (key === 'GameScene') {
+        this.scene.start('GameScene', { mode: 'practice', level: this.settings.level, practice: this.settings });
+      } else {
+        this.scene.start('MenuScene');
+      }
+    });
+  }
+
+  private refresh(): void {
+    this.rows.forEach((row, i) => {
+      const value = row.value(this.settings);
+      const isSelected = i === this.selected;
+      let text: string;
+      if (row.adjust) text = isSelected ? `${row.label}: < ${value} >` : `${row.label}: ${value}`;
+      else text = isSelected ? `> ${row.label} <` : row.label;
+      this.rowTexts[i].setText(text);
+      this.rowTexts[i].setColor(isSelected ? '#f0e68c' : row.adjust ? '#ffffff' : '#aaddff');
+    });
+  }
+
+  private playSound(key: string, volume: number = 0.5): void {
+    SoundGenerator.getInstance().play(key, volume);
+  }
+}
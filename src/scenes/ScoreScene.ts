@@ -1,11 +1,14 @@
 import Phaser from 'phaser';
-import { GAME_WIDTH, GAME_HEIGHT, COLORS } from '../utils/constants';
-import { ScoreManager } from '../managers/ScoreManager';
+import { GAME_WIDTH, GAME_HEIGHT, COLORS, TIME_ATTACK_LEVELS } from '../utils/constants';
+import { ScoreManager, GameMode, formatRunTime } from '../managers/ScoreManager';
 import { LevelManager } from '../managers/LevelManager';
 import { MusicEngine } from '../utils/MusicEngine';
+import type { LandingGrade } from '../objects/Player';
+import type { DeathCause } from '../objects/Hazard';
+import { BossId, BOSSES } from '../utils/bosses';
 
 interface ScoreData {
-  mode: 'level' | 'arcade';
+  mode: GameMode;
   level: number;
   score: number;
   targetsHit: number;
@@ -14,9 +17,27 @@ interface ScoreData {
   passed: boolean;
   vaultHeight: number;
   combo: number;
-  spikeDeath?: boolean;
+  death?: DeathCause;
+  barHeight?: number;
+  barCleared?: boolean;
+  barKnocked?: boolean;
+  landing?: LandingGrade;
+  boss?: BossId;
+  bossDefeated?: boolean;
+  attempts?: string;      // level mode: attempt record, e.g. "X F O"
+  foul?: string;          // level mode: why the last attempt was called a foul
+  daily?: string;         // daily challenge date: the run is scored in that day's bucket
+  timeMs?: number;        // time attack: final clock, penalties included
+  splits?: number[];      // time attack: the clock as each level was cleared
 }
 
+const LANDING_LABELS: Record<LandingGrade, { text: string; color: string }> = {
+  clean: { text: 'CLEAN', color: '#44ff44' },
+  rough: { text: 'ROUGH', color: '#ffcc44' },
+  faceplant: { text: 'FACE-PLANT', color: '#ff8844' },
+  crash: { text: 'CRASH', color: '#ff4444' },
+};
+
 export class ScoreScene extends Phaser.Scene {
   private data!: ScoreData;
 
@@ -35,12 +56,24 @@ export class ScoreScene extends Phaser.Scene {
 
     const isPass = this.data.passed;
 
-    // Level mode failure → dedicated Game Over screen
-    if (this.data.mode === 'level' && !isPass) {
+    // Time attack only ends once the last level is cleared → split sheet
+    if (this.data.mode === 'timeattack') {
+      this.createTimeAttackScreen();
+      return;
+    }
+
+    // Level mode failure or arcade out of lives → dedicated Game Over screen
+    if (!isPass) {
       this.createGameOverScreen();
       return;
     }
 
+    // Boss brought down → its own victory screen
+    if (this.data.boss && this.data.bossDefeated) {
+      this.createBossVictoryScreen(this.data.boss);
+      return;
+    }
+
     // --- Normal results screen (pass, or arcade) ---
     const music = MusicEngine.getInstance();
     if (isPass) {
@@ -101,6 +134,10 @@ export class ScoreScene extends Phaser.Scene {
       this.add.text(centerX - 140, y, 'BEST LEVEL:', statStyle);
       this.add.text(centerX + 140, y, `${bestLvl}`, valStyle).setOrigin(1, 0);
       y += lineH;
+
+      this.add.text(centerX - 140, y, 'ATTEMPTS:', statStyle);
+      this.add.text(centerX + 140, y, this.data.attempts ?? '', valStyle).setOrigin(1, 0);
+      y += lineH;
     }
 
     // Vault height
@@ -108,6 +145,23 @@ export class ScoreScene extends Phaser.Scene {
     this.add.text(centerX + 140, y, `${Math.floor(this.data.vaultHeight)}`, valStyle).setOrigin(1, 0);
     y += lineH;
 
+    // Crossbar
+    if (this.data.barHeight !== undefined) {
+      this.add.text(centerX - 140, y, 'CROSSBAR:', statStyle);
+      this.add.text(centerX + 140, y, this.getBarResult(), {
+        ...valStyle, color: this.data.barCleared ? '#44ff44' : '#ff8844',
+      }).setOrigin(1, 0);
+      y += lineH;
+    }
+
+    // Landing
+    if (this.data.landing) {
+      const label = LANDING_LABELS[this.data.landing];
+      this.add.text(centerX - 140, y, 'LANDING:', statStyle);
+      this.add.text(centerX + 140, y, label.text, { ...valStyle, color: label.color }).setOrigin(1, 0);
+      y += lineH;
+    }
+
     // Max combo
     if (this.data.combo > 1) {
       this.add.text(centerX - 140, y, 'MAX COMBO:', statStyle);
@@ -289,9 +343,25 @@ export class ScoreScene extends Phaser.Scene {
     });
 
     // Death / failure message
+    const isArcade = this.data.mode === 'arcade';
+    const stageStr = isArcade ? 'wave' : 'level';
     let failMsg: string;
-    if (this.data.spikeDeath) {
-      failMsg = `Impaled by the spike wall on level ${this.data.level}!`;
+    if (this.data.foul) {
+      failMsg = `Fouled out of level ${this.data.level}: ${this.data.foul.toLowerCase()}`;
+    } else if (this.data.death === 'spikes') {
+      failMsg = `Impaled by the spike wall on ${stageStr} ${this.data.level}!`;
+    } else if (this.data.death === 'bird') {
+      failMsg = `Taken out by a bird on ${stageStr} ${this.data.level}!`;
+    } else if (this.data.death === 'drone') {
+      failMsg = `Shot down by a drone on ${stageStr} ${this.data.level}!`;
+    } else if (this.data.death === 'boss' && this.data.boss) {
+      failMsg = `Shot down by the ${BOSSES[this.data.boss].name} on ${stageStr} ${this.data.level}!`;
+    } else if (this.data.landing === 'crash') {
+      failMsg = `Crashed onto the runway on ${stageStr} ${this.data.level}!`;
+    } else if (this.data.boss && !this.data.bossDefeated) {
+      failMsg = `The ${BOSSES[this.data.boss].name} got away on ${stageStr} ${this.data.level}!`;
+    } else if (isArcade) {
+      failMsg = `Out of lives on wave ${this.data.level}`;
     } else {
       const missed = this.data.totalTargets - this.data.targetsHit;
       failMsg = `You missed ${missed} target${missed !== 1 ? 's' : ''} on level ${this.data.level}`;
@@ -315,7 +385,7 @@ export class ScoreScene extends Phaser.Scene {
       color: '#ddaaaa',
     };
 
-    this.add.text(centerX - 120, y, 'REACHED LEVEL:', statStyle);
+    this.add.text(centerX - 120, y, isArcade ? 'REACHED WAVE:' : 'REACHED LEVEL:', statStyle);
     this.add.text(centerX + 120, y, `${this.data.level}`, valStyle).setOrigin(1, 0);
     y += 24;
 
@@ -327,14 +397,47 @@ export class ScoreScene extends Phaser.Scene {
     this.add.text(centerX + 120, y, `${this.data.score}`, valStyle).setOrigin(1, 0);
     y += 24;
 
+    if (!isArcade) {
+      this.add.text(centerX - 120, y, 'ATTEMPTS:', statStyle);
+      this.add.text(centerX + 120, y, this.data.attempts ?? '', valStyle).setOrigin(1, 0);
+      y += 24;
+    }
+
     const sm = ScoreManager.getInstance();
-    const bestLvl = sm.getBestLevel();
-    this.add.text(centerX - 120, y, 'BEST LEVEL:', statStyle);
-    this.add.text(centerX + 120, y, `${bestLvl}`, { ...valStyle, color: '#ffdd44' }).setOrigin(1, 0);
+    const daily = this.data.daily;
+    if (isArcade) {
+      const best = daily
+        ? sm.getDailyScores()[daily]?.[0]?.score ?? 0
+        : sm.getHighScores('arcade')[0]?.score ?? 0;
+      this.add.text(centerX - 120, y, daily ? 'TODAY\'S BEST:' : 'HIGH SCORE:', statStyle);
+      this.add.text(centerX + 120, y, `${Math.max(best, this.data.score)}`, { ...valStyle, color: '#ffdd44' }).setOrigin(1, 0);
+    } else {
+      const bestLvl = sm.getBestLevel();
+      this.add.text(centerX - 120, y, 'BEST LEVEL:', statStyle);
+      this.add.text(centerX + 120, y, `${bestLvl}`, { ...valStyle, color: '#ffdd44' }).setOrigin(1, 0);
+    }
     y += 40;
 
-    // Save high score
-    sm.saveHighScore(this.data.mode);
+    // Save high score (the daily challenge keeps its own board)
+    const isNewHigh = daily ? sm.saveDailyScore(daily) : sm.saveHighScore(this.data.mode);
+    if (isArcade && isNewHigh && this.data.score > 0) {
+      const newHighText = this.add.text(centerX, y - 18, daily ? 'BEST OF THE DAY!' : 'NEW HIGH SCORE!', {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '10px',
+        color: '#ffdd44',
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0.5, 0.5);
+
+      this.tweens.add({
+        targets: newHighText,
+        scaleX: 1.1,
+        scaleY: 1.1,
+        yoyo: true,
+        repeat: -1,
+        duration: 500,
+      });
+    }
 
     // Divider
     const divider = this.add.graphics();
@@ -345,8 +448,8 @@ export class ScoreScene extends Phaser.Scene {
     divider.strokePath();
     y += 30;
 
-    // Try Again button (restarts from level 1)
-    const retryBtn = this.add.text(centerX, y, '> TRY AGAIN <', {
+    // Try Again button (restarts from level 1 / wave 1); the daily challenge is one go, so offer a normal run
+    const retryBtn = this.add.text(centerX, y, daily ? '> PLAY ARCADE <' : '> TRY AGAIN <', {
       fontFamily: '"Press Start 2P", monospace',
       fontSize: '14px',
       color: '#ff6644',
@@ -381,6 +484,270 @@ export class ScoreScene extends Phaser.Scene {
     });
   }
 
+  private createBossVictoryScreen(bossId: BossId): void {
+    const boss = BOSSES[bossId];
+    MusicEngine.getInstance().play('score');
+
+    // Night sky with the wreck going down in flames
+    this.add.rectangle(GAME_WIDTH / 2, GAME_HEIGHT / 2, GAME_WIDTH, GAME_HEIGHT, 0x1a0f2e);
+    const centerX = GAME_WIDTH / 2;
+
+    const wreck = this.add.sprite(centerX, 120, boss.texture, boss.phases.length);
+    wreck.setScale(boss.grounded ? 0.8 : 1);
+    this.tweens.add({
+      targets: wreck,
+      y: 140,
+      angle: boss.grounded ? -8 : 10,
+      yoyo: true,
+      repeat: -1,
+      duration: 1400,
+      ease: 'Sine.easeInOut',
+    });
+    const fire = this.add.particles(0, 0, 'particle', {
+      follow: wreck,
+      speed: { min: 20, max: 60 },
+      angle: { min: 250, max: 290 },
+      lifespan: { min: 400, max: 900 },
+      alpha: { start: 1, end: 0 },
+      scale: { start: 1.5, end: 0.4 },
+      frequency: 60,
+      tint: [0xff9933, 0xffdd44, 0xff4422, 0x555555],
+    });
+    fire.setDepth(1);
+
+    // Fireworks over the top
+    this.time.addEvent({
+      delay: 500,
+      loop: true,
+      callback: () => {
+        const burst = this.add.particles(Phaser.Math.Between(80, GAME_WIDTH - 80), Phaser.Math.Between(30, 110), 'particle', {
+          speed: { min: 60, max: 160 },
+          lifespan: 800,
+          alpha: { start: 1, end: 0 },
+          gravityY: 120,
+          emitting: false,
+          tint: Phaser.Utils.Array.GetRandom([[0xffdd44, 0xffffff], [0x44ff44, 0xaaffaa], [0x66ccff, 0xffffff]]),
+        });
+        burst.explode(24);
+        this.time.delayedCall(1000, () => burst.destroy());
+      },
+    });
+
+    const header = this.add.text(centerX, 210, 'BOSS DEFEATED!', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '24px',
+      color: '#ffdd44',
+      stroke: '#000000',
+      strokeThickness: 4,
+    }).setOrigin(0.5, 0.5);
+    this.tweens.add({
+      targets: header,
+      scaleX: 1.08,
+      scaleY: 1.08,
+      yoyo: true,
+      repeat: -1,
+      duration: 400,
+    });
+
+    this.add.text(centerX, 240, `THE ${boss.name} IS DOWN`, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#ffaa33',
+    }).setOrigin(0.5, 0.5);
+
+    // Stats
+    let y = 266;
+    const lineH = 20;
+    const statStyle = {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#bbaadd',
+    };
+    const valStyle = {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#f0e68c',
+    };
+    const modeStr = this.data.mode === 'level' ? 'LEVEL' : 'WAVE';
+    const rows: [string, string][] = [
+      [`${modeStr}:`, `${this.data.level}`],
+      ['TARGETS HIT:', `${this.data.targetsHit} / ${this.data.totalTargets}`],
+      ['BOSS BONUS:', `${boss.points}`],
+      ['MAX COMBO:', `${this.data.combo}x`],
+    ];
+    if (this.data.mode === 'level') rows.push(['ATTEMPTS:', this.data.attempts ?? '']);
+    for (const [label, value] of rows) {
+      this.add.text(centerX - 140, y, label, statStyle);
+      this.add.text(centerX + 140, y, value, valStyle).setOrigin(1, 0);
+      y += lineH;
+    }
+
+    this.add.text(centerX - 140, y + 4, 'TOTAL SCORE:', { ...statStyle, fontSize: '12px', color: '#ffffff' });
+    const scoreDisplay = this.add.text(centerX + 140, y + 4, '0', { ...valStyle, fontSize: '12px' }).setOrigin(1, 0);
+    this.tweens.addCounter({
+      from: 0,
+      to: this.data.score,
+      duration: 1500,
+      ease: 'Cubic.easeOut',
+      onUpdate: (tween) => {
+        scoreDisplay.setText(Math.floor(tween.getValue() ?? 0).toString());
+      },
+    });
+
+    // Records are kept the same as on a normal pass
+    const sm = ScoreManager.getInstance();
+    sm.saveHighScore(this.data.mode);
+    if (this.data.mode === 'level') sm.saveBestLevel(this.data.level);
+
+    // Action buttons
+    y = GAME_HEIGHT - 60;
+    const nextLabel = this.data.mode === 'level' ? 'NEXT LEVEL' : 'NEXT WAVE';
+    const nextBtn = this.add.text(centerX, y, `> ${nextLabel} <`, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '12px',
+      color: '#44ff44',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+    nextBtn.on('pointerover', () => nextBtn.setColor('#88ff88'));
+    nextBtn.on('pointerout', () => nextBtn.setColor('#44ff44'));
+    nextBtn.on('pointerdown', () => this.nextLevel());
+
+    const menuBtn = this.add.text(centerX, y + 30, 'MAIN MENU', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#888888',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+    menuBtn.on('pointerover', () => menuBtn.setColor('#cccccc'));
+    menuBtn.on('pointerout', () => menuBtn.setColor('#888888'));
+    menuBtn.on('pointerdown', () => {
+      this.scene.start('MenuScene');
+    });
+
+    this.input.keyboard!.on('keydown-ENTER', () => this.nextLevel());
+    this.input.keyboard!.on('keydown-ESC', () => {
+      this.scene.start('MenuScene');
+    });
+  }
+
+  private createTimeAttackScreen(): void {
+    MusicEngine.getInstance().play('score');
+    this.add.rectangle(GAME_WIDTH / 2, GAME_HEIGHT / 2, GAME_WIDTH, GAME_HEIGHT, COLORS.DARK);
+    const centerX = GAME_WIDTH / 2;
+    const timeMs = this.data.timeMs ?? 0;
+    const splits = this.data.splits ?? [];
+
+    this.add.text(centerX, 40, 'TIME ATTACK', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '24px',
+      color: '#66ddff',
+      stroke: '#000000',
+      strokeThickness: 4,
+    }).setOrigin(0.5, 0.5);
+
+    this.add.text(centerX, 84, formatRunTime(timeMs), {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '20px',
+      color: '#f0e68c',
+      stroke: '#000000',
+      strokeThickness: 3,
+    }).setOrigin(0.5, 0.5);
+
+    // Splits against the previous best run (read before this run can replace it)
+    const sm = ScoreManager.getInstance();
+    const bestSplits = sm.getBestSplits();
+    const statStyle = {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#dddddd',
+    };
+    let y = 120;
+    for (let i = 0; i < TIME_ATTACK_LEVELS; i++) {
+      const split = splits[i];
+      const best = bestSplits[i];
+      this.add.text(centerX - 160, y, `LEVEL ${i + 1}`, statStyle);
+      this.add.text(centerX + 40, y, split !== undefined ? formatRunTime(split) : '--', {
+        ...statStyle, color: '#f0e68c',
+      }).setOrigin(1, 0);
+      if (split !== undefined && best !== undefined) {
+        const diff = split - best;
+        this.add.text(centerX + 160, y, `${diff <= 0 ? '-' : '+'}${formatRunTime(Math.abs(diff))}`, {
+          ...statStyle, color: diff <= 0 ? '#44ff44' : '#ff6644',
+        }).setOrigin(1, 0);
+      }
+      y += 22;
+    }
+
+    this.add.text(centerX - 160, y + 6, 'SCORE:', statStyle);
+    this.add.text(centerX + 160, y + 6, `${this.data.score}`, { ...statStyle, color: '#f0e68c' }).setOrigin(1, 0);
+    y += 30;
+
+    const prevBest = sm.getHighScores('timeattack')[0]?.timeMs;
+    this.add.text(centerX - 160, y, 'BEST TIME:', statStyle);
+    this.add.text(centerX + 160, y, formatRunTime(Math.min(prevBest ?? timeMs, timeMs)), {
+      ...statStyle, color: '#ffdd44',
+    }).setOrigin(1, 0);
+    y += 34;
+
+    if (sm.saveHighScore('timeattack')) {
+      const recordText = this.add.text(centerX, y, 'NEW RECORD!', {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '14px',
+        color: '#ffdd44',
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0.5, 0.5);
+      this.tweens.add({
+        targets: recordText,
+        scaleX: 1.1,
+        scaleY: 1.1,
+        yoyo: true,
+        repeat: -1,
+        duration: 500,
+      });
+    }
+
+    // Action buttons
+    y = GAME_HEIGHT - 60;
+    const retryBtn = this.add.text(centerX, y, '> RUN AGAIN <', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '12px',
+      color: '#66ddff',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+    retryBtn.on('pointerover', () => retryBtn.setColor('#aaeeff'));
+    retryBtn.on('pointerout', () => retryBtn.setColor('#66ddff'));
+    retryBtn.on('pointerdown', () => this.retryLevel());
+
+    const menuBtn = this.add.text(centerX, y + 30, 'MAIN MENU', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#888888',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+    menuBtn.on('pointerover', () => menuBtn.setColor('#cccccc'));
+    menuBtn.on('pointerout', () => menuBtn.setColor('#888888'));
+    menuBtn.on('pointerdown', () => {
+      this.scene.start('MenuScene');
+    });
+
+    this.input.keyboard!.on('keydown-ENTER', () => this.retryLevel());
+    this.input.keyboard!.on('keydown-ESC', () => {
+      this.scene.start('MenuScene');
+    });
+  }
+
+  private getBarResult(): string {
+    const height = (this.data.barHeight ?? 0).toFixed(2);
+    if (this.data.barCleared) return `CLEARED ${height} m`;
+    if (this.data.barKnocked) return `KNOCKED ${height} m`;
+    return `NO HEIGHT ${height} m`;
+  }
+
   private nextLevel(): void {
     const nextLvl = this.data.level + 1;
     const sm = ScoreManager.getInstance();
@@ -406,18 +773,14 @@ export class ScoreScene extends Phaser.Scene {
     const sm = ScoreManager.getInstance();
     sm.reset();
 
-    if (this.data.mode === 'level') {
-      // Level mode: any miss resets to level 1
-      this.cameras.main.fadeOut(300, 0, 0, 0);
-      this.cameras.main.once('camerafadeoutcomplete', () => {
-        this.scene.start('GameScene', { mode: 'level', level: 1 });
-      });
-    } else {
-      this.cameras.main.fadeOut(300, 0, 0, 0);
-      this.cameras.main.once('camerafadeoutcomplete', () => {
-        this.scene.start('GameScene', { mode: this.data.mode, level: this.data.level });
-      });
-    }
+    // Level mode: three fouls or misses on one level reset to level 1
+    // Arcade: a finished run (no lives left) starts a fresh run from wave 1
+    // Time attack: the clock starts again from level 1
+    // Daily: the day's course is used up, so this is a fresh normal arcade run
+    this.cameras.main.fadeOut(300, 0, 0, 0);
+    this.cameras.main.once('camerafadeoutcomplete', () => {
+      this.scene.start('GameScene', { mode: this.data.mode, level: 1 });
+    });
   }
 
   private showVictory(): void {
@@ -0,0 +1,227 @@
+import Phaser from 'phaser';
+import { GAME_WIDTH, GAME_HEIGHT, COLORS } from '../utils/constants';
+import { ScoreManager, HotSeatPlayer } from '../managers/ScoreManager';
+import { RandomManager } from '../managers/RandomManager';
+import { SoundGenerator } from '../utils/SoundGenerator';
+import { MusicEngine } from '../utils/MusicEngine';
+
+// Podium steps, in finishing order: x offset from centre and block height
+const PODIUM_STEPS = [
+  { dx: 0, height: 110, color: 0xd4af37 },
+  { dx: -150, height: 80, color: 0xc0c0c0 },
+  { dx: 150, height: 55, color: 0xcd7f32 },
+];
+
+/**
+ * Between hot-seat turns: the table so far and who's up next. Once the last round (and any
+ * sudden death) is done it becomes the final podium instead.
+ */
+export class StandingsScene extends Phaser.Scene {
+  private leaving: boolean = false;
+
+  constructor() {
+    super({ key: 'StandingsScene' });
+  }
+
+  create(): void {
+    this.leaving = false;
+    this.input.setDefaultCursor('default');
+    this.cameras.main.fadeIn(300, 0, 0, 0);
+    MusicEngine.getInstance().play('score');
+    this.add.rectangle(GAME_WIDTH / 2, GAME_HEIGHT / 2, GAME_WIDTH, GAME_HEIGHT, COLORS.DARK);
+
+    const sm = ScoreManager.getInstance();
+    const justPlayed = sm.players[sm.activePlayer];
+    const round = sm.hotSeatRound;
+    const wasSuddenDeath = sm.suddenDeath;
+    const next = sm.advanceTurn();
+
+    if (next === 'over') {
+      this.createPodium(sm.getStandings());
+      return;
+    }
+
+    this.add.text(GAME_WIDTH / 2, 40, wasSuddenDeath ? 'SUDDEN DEATH' : `ROUND ${round}`, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '20px',
+      color: '#ffaaff',
+      stroke: '#000000',
+      strokeThickness: 4,
+    }).setOrigin(0.5, 0.5);
+
+    this.createTable(sm.getStandings(), justPlayed, 90);
+
+    const up = sm.players[sm.activePlayer].name;
+    let headline: string;
+    if (next === 'suddendeath') {
+      const tied = sm.contenders.map(i => sm.players[i].name).join(' VS ');
+      headline = `TIED AT THE TOP!\n\nSUDDEN DEATH: ${tied}`;
+      this.playSound('sfx_buzzer', 0.4);
+    } else if (next === 'round') {
+      headline = `ROUND ${sm.hotSeatRound} - ${up} STARTS`;
+    } else {
+      headline = `NEXT UP: ${up}`;
+    }
+
+    this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 110, headline, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '12px',
+      color: next === 'suddendeath' ? '#ff6666' : '#f0e68c',
+      align: 'center',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5, 0.5);
+
+    const goBtn = this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 55, `> ${up}, TAKE THE POLE <`, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '12px',
+      color: '#44ff44',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+    goBtn.on('pointerover', () => goBtn.setColor('#88ff88'));
+    goBtn.on('pointerout', () => goBtn.setColor('#44ff44'));
+    goBtn.on('pointerdown', () => this.startTurn());
+
+    this.add.text(GAME_WIDTH / 2, GAME_HEIGHT - 20, 'ENTER: play | ESC: quit to menu', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '7px',
+      color: '#666666',
+    }).setOrigin(0.5, 0.5);
+
+    this.input.keyboard!.on('keydown-ENTER', () => this.startTurn());
+    this.input.keyboard!.on('keydown-ESC', () => this.scene.start('MenuScene'));
+  }
+
+  /** Rank, name, last run and total; the player who just went is highlighted */
+  private createTable(standings: HotSeatPlayer[], justPlayed: HotSeatPlayer, top: number): void {
+    const style = {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '12px',
+      color: '#888888',
+    };
+    const cols = [GAME_WIDTH / 2 - 220, GAME_WIDTH / 2 - 170, GAME_WIDTH / 2 + 60, GAME_WIDTH / 2 + 220];
+
+    this.add.text(cols[1], top, 'PLAYER', { ...style, fontSize: '8px' });
+    this.add.text(cols[2], top, 'LAST RUN', { ...style, fontSize: '8px' }).setOrigin(1, 0);
+    this.add.text(cols[3], top, 'TOTAL', { ...style, fontSize: '8px' }).setOrigin(1, 0);
+
+    standings.forEach((player, i) => {
+      const y = top + 24 + i * 28;
+      const color = player === justPlayed ? '#f0e68c' : '#ffffff';
+      const last = player.rounds[player.rounds.length - 1];
+      this.add.text(cols[0], y, `${i + 1}.`, { ...style, color });
+      this.add.text(cols[1], y, player.name, { ...style, color });
+      this.add.text(cols[2], y, last === undefined ? '-' : `${last}`, { ...style, color }).setOrigin(1, 0);
+      this.add.text(cols[3], y, `${player.total}`, { ...style, color }).setOrigin(1, 0);
+    });
+  }
+
+  private createPodium(standings: HotSeatPlayer[]): void {
+    const centerX = GAME_WIDTH / 2;
+    const baseY = GAME_HEIGHT - 130;
+    this.playSound('sfx_levelclear', 0.4);
+
+    this.add.text(centerX, 40, `${standings[0].name} WINS!`, {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '22px',
+      color: '#f0e68c',
+      stroke: '#000000',
+      strokeThickness: 4,
+    }).setOrigin(0.5, 0.5);
+
+    PODIUM_STEPS.forEach((step, place) => {
+      const player = standings[place];
+      if (!player) return;
+      const x = centerX + step.dx;
+
+      const block = this.add.rectangle(x, baseY, 130, step.height, step.color).setOrigin(0.5, 1);
+      block.setStrokeStyle(2, 0x000000);
+      this.add.text(x, baseY - step.height / 2, `${place + 1}`, {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '24px',
+        color: '#ffffff',
+        stroke: '#000000',
+        strokeThickness: 4,
+      }).setOrigin(0.5, 0.5);
+
+      const name = this.add.text(x, baseY - step.height - 30, `${player.name}\n${player.total}`, {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '10px',
+        color: '#ffffff',
+        align: 'center',
+        lineSpacing: 6,
+        stroke: '#000000',
+        strokeThickness: 2,
+      }).setOrigin(0.5, 0.5);
+
+      // Everyone on the steps gets a little bounce, the winner the most
+      this.tweens.add({
+        targets: name,
+        y: name.y - (place === 0 ? 8 : 4),
+        yoyo: true,
+        repeat: -1,
+        duration: 600,
+        ease: 'Sine.easeInOut',
+        delay: place * 150,
+      });
+    });
+
+    // Whoever missed the podium
+    const rest = standings.slice(PODIUM_STEPS.length).map((p, i) => `${i + PODIUM_STEPS.length + 1}. ${p.name} ${p.total}`);
+    if (rest.length > 0) {
+      this.add.text(centerX, baseY + 20, rest.join('   '), {
+        fontFamily: '"Press Start 2P", monospace',
+        fontSize: '8px',
+        color: '#aaaaaa',
+      }).setOrigin(0.5, 0.5);
+    }
+
+    const rematchBtn = this.add.text(centerX, GAME_HEIGHT - 70, '> REMATCH <', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '12px',
+      color: '#44ff44',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+    rematchBtn.on('pointerover', () => rematchBtn.setColor('#88ff88'));
+    rematchBtn.on('pointerout', () => rematchBtn.setColor('#44ff44'));
+    rematchBtn.on('pointerdown', () => this.rematch());
+
+    const menuBtn = this.add.text(centerX, GAME_HEIGHT - 40, 'MAIN MENU', {
+      fontFamily: '"Press Start 2P", monospace',
+      fontSize: '10px',
+      color: '#888888',
+      stroke: '#000000',
+      strokeThickness: 2,
+    }).setOrigin(0.5, 0.5).setInteractive({ useHandCursor: true });
+    menuBtn.on('pointerover', () => menuBtn.setColor('#cccccc'));
+    menuBtn.on('pointerout', () => menuBtn.setColor('#888888'));
+    menuBtn.on('pointerdown', () => this.scene.start('MenuScene'));
+
+    this.input.keyboard!.on('keydown-ENTER', () => this.rematch());
+    this.input.keyboard!.on('keydown-ESC', () => this.scene.start('MenuScene'));
+  }
+
+  private startTurn(): void {
+    if (this.leaving) return;
+    this.leaving = true;
+    this.cameras.main.fadeOut(300, 0, 0, 0);
+    this.cameras.main.once('camerafadeoutcomplete', () => {
+      this.scene.start('GameScene', { mode: 'hotseat', level: ScoreManager.getInstance().hotSeatRound });
+    });
+  }
+
+  /** Same players, same seating order, a fresh course */
+  private rematch(): void {
+    if (this.leaving) return;
+    const sm = ScoreManager.getInstance();
+    sm.startHotSeat(sm.players.map(p => p.name));
+    RandomManager.getInstance().newRun();
+    this.startTurn();
+  }
+
+  private playSound(key: string, volume: number = 0.5): void {
+    SoundGenerator.getInstance().play(key, volume);
+  }
+}
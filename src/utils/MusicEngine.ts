@@ -341,6 +341,86 @@ const SONGS: Record<string, SongData> = {
        R,  R,  R,  R,  R,  R,  R,  R,
     ],
   },
+
+  // ═══════════════════════════════════════════════════
+  // BOSS THEME — "Iron in the Sky"
+  // Key: E minor, 172 BPM, 8 bars
+  // Relentless octave bass and a climbing lead; B major turnaround for menace
+  // ═══════════════════════════════════════════════════
+  boss: {
+    name: 'Iron in the Sky',
+    tempo: 172,
+    pulse1Duty: 0.25,
+    pulse2Duty: 0.125,
+    pulse1Vol: 0.1,
+    pulse2Vol: 0.06,
+    triVol: 0.095,
+    noiseVol: 0.06,
+
+    pulse1: [
+      // Bar 1 (Em): Stabbing call
+      _E5, _E5, _B4, _E5, _G5,  S, _Fs5, _E5,
+      // Bar 2 (Em): Climb to the top
+      _Fs5, S, _G5, _A5, _B5,  S, _A5, _G5,
+      // Bar 3 (C)
+      _G5,  S, _E5,  S, _C5, _E5, _G5,  S,
+      // Bar 4 (D)
+      _Fs5, S, _D5,  S, _A4, _D5, _Fs5, S,
+      // Bar 5 (Em): Call again, higher
+      _E5, _B4, _E5, _G5, _B5,  S,  S, _A5,
+      // Bar 6 (Am): Tumbling down
+      _A5, _G5, _E5, _C5, _A4,  S, _C5, _E5,
+      // Bar 7 (B): Leading tone tension
+      _Eb5, S, _Fs5, S, _B5,  S, _A5, _Fs5,
+      // Bar 8 (B): Turnaround
+      _Eb5, _E5, _Fs5, _Eb5, _B4, S,  R,  R,
+    ],
+
+    pulse2: [
+      // Bar 1-2 (Em)
+      _E4, _G4, _B4, _G4, _E4, _G4, _B4, _G4,
+      _E4, _G4, _B4, _G4, _E4, _G4, _B4, _G4,
+      // Bar 3 (C)
+      _C4, _E4, _G4, _E4, _C4, _E4, _G4, _E4,
+      // Bar 4 (D)
+      _D4, _Fs4, _A4, _Fs4, _D4, _Fs4, _A4, _Fs4,
+      // Bar 5 (Em)
+      _E4, _G4, _B4, _G4, _E4, _G4, _B4, _G4,
+      // Bar 6 (Am)
+      _A3, _C4, _E4, _C4, _A3, _C4, _E4, _C4,
+      // Bar 7-8 (B)
+      _B3, _Eb4, _Fs4, _Eb4, _B3, _Eb4, _Fs4, _Eb4,
+      _B3, _Eb4, _Fs4, _Eb4, _B3, _Eb4, _Fs4, _Eb4,
+    ],
+
+    triangle: [
+      // Bar 1-2 (Em): Octave pump
+      _E2, _E3, _E2, _E3, _E2, _E3, _E2, _E3,
+      _E2, _E3, _E2, _E3, _E2, _E3, _E2, _E3,
+      // Bar 3 (C)
+      _C2, _C3, _C2, _C3, _C2, _C3, _C2, _C3,
+      // Bar 4 (D)
+      _D2, _D3, _D2, _D3, _D2, _D3, _D2, _D3,
+      // Bar 5 (Em)
+      _E2, _E3, _E2, _E3, _E2, _E3, _E2, _E3,
+      // Bar 6 (Am)
+      _A2, _A3, _A2, _A3, _A2, _A3, _A2, _A3,
+      // Bar 7-8 (B)
+      _B2, _B3, _B2, _B3, _B2, _B3, _B2, _B3,
+      _B2, _B3, _B2, _B3, _B2,  S, _E2,  S,
+    ],
+
+    noise: [
+      K, HH, SN, HH, K,  K, SN, HH,
+      K, HH, SN, HH, K,  K, SN, OH,
+      K, HH, SN, HH, K,  K, SN, HH,
+      K, HH, SN, HH, K,  K, SN, OH,
+      K, HH, SN, HH, K,  K, SN, HH,
+      K, HH, SN, HH, K,  K, SN, OH,
+      K, HH, SN, HH, K,  K, SN, HH,
+      SN, SN, SN, SN, K, SN, OH, R,
+    ],
+  },
 };
 
 // ─── Music Engine ──────────────────────────────────
@@ -372,6 +452,7 @@ export class MusicEngine {
   // Settings
   private volume: number = 0.105;
   private muted: boolean = false;
+  private tempoScale: number = 1; // < 1 slows the song down (bullet time)
 
   // Scheduling parameters
   private readonly LOOKAHEAD = 0.12;       // seconds to look ahead
@@ -478,6 +559,11 @@ export class MusicEngine {
     }
   }
 
+  /** Stretch the tempo of whatever is playing; 1 = the song's own BPM */
+  setTempoScale(scale: number): void {
+    this.tempoScale = scale;
+  }
+
   toggleMute(): boolean {
     this.muted = !this.muted;
     if (this.masterGain && this.audioCtx) {
@@ -619,7 +705,7 @@ export class MusicEngine {
 
   private advanceStep(): void {
     if (!this.currentSong) return;
-    const secondsPerBeat = 60 / this.currentSong.tempo;
+    const secondsPerBeat = 60 / (this.currentSong.tempo * this.tempoScale);
     const secondsPerStep = secondsPerBeat / 2; // each step = eighth note
     this.nextStepTime += secondsPerStep;
     this.currentStep++;
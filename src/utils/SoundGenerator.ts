@@ -35,6 +35,29 @@ export class SoundGenerator {
         ['sfx_levelclear', () => this.createLevelClear()],
         ['sfx_fail', () => this.createFail()],
         ['sfx_select', () => this.createSelect()],
+        ['sfx_empty', () => this.createEmptyClick()],
+        ['sfx_reload', () => this.createReload()],
+        ['sfx_bar_knock', () => this.createBarKnock()],
+        ['sfx_shotgun', () => this.createShotgun()],
+        ['sfx_rifle', () => this.createRifle()],
+        ['sfx_smg', () => this.createSmg()],
+        ['sfx_launcher', () => this.createLauncher()],
+        ['sfx_explosion', () => this.createExplosion()],
+        ['sfx_clank', () => this.createClank()],
+        ['sfx_buzzer', () => this.createBuzzer()],
+        ['sfx_ricochet', () => this.createRicochet()],
+        ['sfx_land_rough', () => this.createLandRough()],
+        ['sfx_faceplant', () => this.createFaceplant()],
+        ['sfx_crash', () => this.createCrash()],
+        ['sfx_trick', () => this.createTrick()],
+        ['sfx_bird', () => this.createBird()],
+        ['sfx_drone_fire', () => this.createDroneFire()],
+        ['sfx_pop', () => this.createPop()],
+        ['sfx_hurt', () => this.createHurt()],
+        ['sfx_boss_phase', () => this.createBossPhase()],
+        ['sfx_boss_down', () => this.createBossDown()],
+        ['sfx_powerup', () => this.createPowerUp()],
+        ['sfx_powerup_end', () => this.createPowerUpEnd()],
       ];
 
       for (const [key, gen] of generators) {
@@ -257,4 +280,354 @@ export class SoundGenerator {
     }
     return buffer;
   }
+
+  private createEmptyClick(): AudioBuffer {
+    const { buffer, data } = this.createBuffer(0.05);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const click = Math.sin(t * 3200 * Math.PI * 2) * 0.5 + (Math.random() * 2 - 1) * 0.5;
+      const envelope = Math.exp(-t * 120);
+      data[i] = click * envelope * 0.5;
+    }
+    return buffer;
+  }
+
+  private createBarKnock(): AudioBuffer {
+    // Hollow metallic clang with a rattle as the bar bounces off
+    const { buffer, data } = this.createBuffer(0.5);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const clang = Math.sin(t * 620 * Math.PI * 2) * 0.5 + Math.sin(t * 1550 * Math.PI * 2) * 0.3;
+      const rattle = Math.sin(t * 40 * Math.PI * 2) > 0.6 ? (Math.random() * 2 - 1) * 0.3 : 0;
+      const envelope = Math.exp(-t * 7);
+      data[i] = (clang + rattle) * envelope * 0.5;
+    }
+    return buffer;
+  }
+
+  private createReload(): AudioBuffer {
+    // Two metallic clacks: magazine out, magazine in
+    const { buffer, data } = this.createBuffer(0.35);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const t2 = Math.max(t - 0.2, 0);
+      const clack1 = Math.sin(t * 1800 * Math.PI * 2) * Math.exp(-t * 60);
+      const clack2 = t >= 0.2 ? Math.sin(t2 * 1400 * Math.PI * 2) * Math.exp(-t2 * 50) : 0;
+      const noise = (Math.random() * 2 - 1) * (Math.exp(-t * 60) + (t >= 0.2 ? Math.exp(-t2 * 50) : 0)) * 0.4;
+      data[i] = (clack1 + clack2 + noise) * 0.4;
+    }
+    return buffer;
+  }
+
+  private createShotgun(): AudioBuffer {
+    // Heavier, longer blast than the pistol
+    const { buffer, data } = this.createBuffer(0.3);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const noise = (Math.random() * 2 - 1);
+      const envelope = Math.exp(-t * 16);
+      const boom = Math.sin(t * 80 * Math.PI * 2) * Math.exp(-t * 12);
+      data[i] = (noise * 0.7 + boom * 0.5) * envelope * 0.85;
+    }
+    return buffer;
+  }
+
+  private createRifle(): AudioBuffer {
+    // Sharp crack with a high ringing tail
+    const { buffer, data } = this.createBuffer(0.25);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const crack = (Math.random() * 2 - 1) * Math.exp(-t * 70);
+      const ring = Math.sin(t * 2400 * Math.PI * 2) * Math.exp(-t * 25) * 0.25;
+      const punch = Math.sin(t * 200 * Math.PI * 2) * Math.exp(-t * 30) * 0.4;
+      data[i] = (crack * 0.7 + ring + punch) * 0.8;
+    }
+    return buffer;
+  }
+
+  private createSmg(): AudioBuffer {
+    // Short, light pop — plays once per round of the burst
+    const { buffer, data } = this.createBuffer(0.08);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const noise = (Math.random() * 2 - 1);
+      const envelope = Math.exp(-t * 60);
+      const punch = Math.sin(t * 220 * Math.PI * 2) * Math.exp(-t * 40);
+      data[i] = (noise * 0.6 + punch * 0.4) * envelope * 0.6;
+    }
+    return buffer;
+  }
+
+  private createLauncher(): AudioBuffer {
+    // Hollow thump of the shell leaving the tube
+    const { buffer, data } = this.createBuffer(0.35);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const freq = 120 - t * 200;
+      const thump = Math.sin(t * freq * Math.PI * 2) * Math.exp(-t * 10);
+      const hiss = (Math.random() * 2 - 1) * Math.exp(-t * 8) * 0.25;
+      data[i] = (thump * 0.8 + hiss) * 0.8;
+    }
+    return buffer;
+  }
+
+  private createExplosion(): AudioBuffer {
+    // Low rumbling blast
+    const { buffer, data } = this.createBuffer(0.8);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const noise = (Math.random() * 2 - 1);
+      const rumble = Math.sin(t * 50 * Math.PI * 2) * Math.exp(-t * 4);
+      const envelope = Math.exp(-t * 5);
+      data[i] = (noise * 0.6 * envelope + rumble * 0.5) * 0.9;
+    }
+    return buffer;
+  }
+
+  private createClank(): AudioBuffer {
+    // Bullet pinging off armour plate
+    const { buffer, data } = this.createBuffer(0.25);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const ping = Math.sin(t * 1900 * Math.PI * 2) * 0.5 + Math.sin(t * 2870 * Math.PI * 2) * 0.3;
+      const tick = (Math.random() * 2 - 1) * Math.exp(-t * 200) * 0.5;
+      const envelope = Math.exp(-t * 18);
+      data[i] = (ping * envelope + tick) * 0.5;
+    }
+    return buffer;
+  }
+
+  private createBuzzer(): AudioBuffer {
+    // Harsh "wrong answer" buzz for shooting a decoy
+    const { buffer, data } = this.createBuffer(0.4);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const square = Math.sign(Math.sin(t * 110 * Math.PI * 2));
+      const envelope = t < 0.35 ? 1 : Math.max(0, 1 - (t - 0.35) / 0.05);
+      data[i] = square * envelope * 0.25;
+    }
+    return buffer;
+  }
+
+  private createRicochet(): AudioBuffer {
+    // Classic falling "pyeeww" whine
+    const { buffer, data } = this.createBuffer(0.35);
+    const sr = this.audioCtx!.sampleRate;
+    let phase = 0;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const freq = 2600 * Math.exp(-t * 3) + 400;
+      phase += (freq / sr) * Math.PI * 2;
+      const tick = (Math.random() * 2 - 1) * Math.exp(-t * 150) * 0.5;
+      const envelope = Math.exp(-t * 8);
+      data[i] = (Math.sin(phase) * 0.5 * envelope + tick) * 0.5;
+    }
+    return buffer;
+  }
+
+  private createLandRough(): AudioBuffer {
+    // Heavier thump with a foam "whumph"
+    const { buffer, data } = this.createBuffer(0.35);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const freq = 50 - t * 40;
+      const thump = Math.sin(t * Math.max(freq, 18) * Math.PI * 2);
+      const foam = (Math.random() * 2 - 1) * Math.exp(-t * 7) * 0.45;
+      const envelope = Math.exp(-t * 9);
+      data[i] = (thump * 0.9 + foam) * envelope * 0.75;
+    }
+    return buffer;
+  }
+
+  private createFaceplant(): AudioBuffer {
+    // Thud followed by a comic descending "bwomp"
+    const { buffer, data } = this.createBuffer(0.5);
+    const sr = this.audioCtx!.sampleRate;
+    let phase = 0;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const thud = Math.sin(t * 55 * Math.PI * 2) * Math.exp(-t * 20);
+      const freq = 220 * Math.exp(-t * 2.5);
+      phase += (freq / sr) * Math.PI * 2;
+      const bwomp = t > 0.08 ? Math.sign(Math.sin(phase)) * 0.25 * Math.exp(-(t - 0.08) * 5) : 0;
+      data[i] = (thud * 0.8 + bwomp) * 0.6;
+    }
+    return buffer;
+  }
+
+  private createCrash(): AudioBuffer {
+    // Hard slam onto the runway with gravel scatter
+    const { buffer, data } = this.createBuffer(0.6);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const slam = Math.sin(t * Math.max(80 - t * 120, 25) * Math.PI * 2) * Math.exp(-t * 8);
+      const crunch = (Math.random() * 2 - 1) * Math.exp(-t * 14);
+      const gravel = Math.random() < 0.02 ? (Math.random() * 2 - 1) * Math.exp(-t * 4) : 0;
+      data[i] = (slam * 0.7 + crunch * 0.5 + gravel) * 0.7;
+    }
+    return buffer;
+  }
+
+  private createTrick(): AudioBuffer {
+    // Airy rising swish as the athlete spins
+    const { buffer, data } = this.createBuffer(0.3);
+    const sr = this.audioCtx!.sampleRate;
+    let phase = 0;
+    let smooth = 0;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const freq = 300 + t * 1800;
+      phase += (freq / sr) * Math.PI * 2;
+      const noise = Math.random() * 2 - 1;
+      smooth += (noise - smooth) * 0.15;
+      const envelope = Math.sin((t / 0.3) * Math.PI);
+      data[i] = (smooth * 0.6 + Math.sin(phase) * 0.15) * envelope * 0.5;
+    }
+    return buffer;
+  }
+
+  private createBird(): AudioBuffer {
+    // Two harsh chirps, like a startled crow
+    const { buffer, data } = this.createBuffer(0.3);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const local = t % 0.15;
+      const freq = 1400 - local * 4000;
+      const tone = Math.sign(Math.sin(local * freq * Math.PI * 2));
+      const envelope = Math.exp(-local * 25);
+      data[i] = tone * envelope * 0.2;
+    }
+    return buffer;
+  }
+
+  private createDroneFire(): AudioBuffer {
+    // Electronic "pew" with a falling pitch
+    const { buffer, data } = this.createBuffer(0.2);
+    const sr = this.audioCtx!.sampleRate;
+    let phase = 0;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const freq = 1800 * Math.exp(-t * 12) + 200;
+      phase += (freq / sr) * Math.PI * 2;
+      const envelope = Math.exp(-t * 10);
+      data[i] = Math.sin(phase) * envelope * 0.4;
+    }
+    return buffer;
+  }
+
+  private createPop(): AudioBuffer {
+    // Sharp balloon pop
+    const { buffer, data } = this.createBuffer(0.12);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const noise = Math.random() * 2 - 1;
+      const envelope = Math.exp(-t * 60);
+      data[i] = noise * envelope * 0.8;
+    }
+    return buffer;
+  }
+
+  private createHurt(): AudioBuffer {
+    // Body hit: low thud with a grunt-like buzz
+    const { buffer, data } = this.createBuffer(0.3);
+    const sr = this.audioCtx!.sampleRate;
+    
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const thud = Math.sin(t * Math.max(90 - t * 200, 30) * Math.PI * 2) * Math.exp(-t * 15);
+      const grunt = Math.sign(Math.sin(t * 140 * Math.PI * 2)) * Math.exp(-t * 12) * 0.25;
+      data[i] = (thud * 0.8 + grunt) * 0.6;
+    }
+    return buffer;
+  }
+
+  private createBossPhase(): AudioBuffer {
+    // Alarm: two-tone klaxon, three times
+    const { buffer, data } = this.createBuffer(0.6);
+    const sr = this.audioCtx!.sampleRate;
+
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const freq = Math.floor(t / 0.1) % 2 === 0 ? 660 : 440;
+      const env = Math.min(t * 40, 1) * Math.exp(-t * 2.5);
+      data[i] = Math.sign(Math.sin(t * freq * Math.PI * 2)) * env * 0.3;
+    }
+    return buffer;
+  }
+
+  private createBossDown(): AudioBuffer {
+    // Long rumbling explosion with a falling whine underneath
+    const { buffer, data } = this.createBuffer(1.6);
+    const sr = this.audioCtx!.sampleRate;
+
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const rumble = (Math.random() * 2 - 1) * Math.exp(-t * 2.2);
+      const boom = Math.sin(t * Math.max(70 - t * 40, 20) * Math.PI * 2) * Math.exp(-t * 3);
+      const whine = Math.sin(t * Math.max(900 - t * 600, 100) * Math.PI * 2) * Math.exp(-t * 2) * 0.15;
+      data[i] = (rumble * 0.6 + boom * 0.6 + whine) * 0.7;
+    }
+    return buffer;
+  }
+
+  private createPowerUp(): AudioBuffer {
+    // Quick rising arpeggio
+    const { buffer, data } = this.createBuffer(0.3);
+    const sr = this.audioCtx!.sampleRate;
+    const notes = [523, 659, 784, 1047];
+
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const freq = notes[Math.min(Math.floor(t / 0.06), notes.length - 1)];
+      const env = Math.exp(-t * 6);
+      data[i] = Math.sign(Math.sin(t * freq * Math.PI * 2)) * env * 0.25;
+    }
+    return buffer;
+  }
+
+  private createPowerUpEnd(): AudioBuffer {
+    // Two falling blips
+    const { buffer, data } = this.createBuffer(0.2);
+    const sr = this.audioCtx!.sampleRate;
+
+    for (let i = 0; i < data.length; i++) {
+      const t = i / sr;
+      const freq = t < 0.1 ? 660 : 440;
+      const env = Math.exp(-(t % 0.1) * 25);
+      data[i] = Math.sign(Math.sin(t * freq * Math.PI * 2)) * env * 0.2;
+    }
+    return buffer;
+  }
 }
@@ -0,0 +1,111 @@
+/**
+ * Boss definitions for the boss stages.
+ * Boss moves and exposes weak points from this data; GameScene handles hits, the HUD bar and scoring.
+ */
+
+import { GROUND_Y } from './constants';
+
+export type BossId = 'blimp' | 'mech';
+
+export interface BossWeakPointDef {
+  x: number;            // offset from the boss centre (px)
+  y: number;
+}
+
+export interface BossPhase {
+  name: string;                 // announced when the phase begins
+  weakPoints: BossWeakPointDef[]; // exposed for this phase; all must break to move on
+  swayX: number;                // horizontal travel either side of its anchor (px)
+  swayY: number;                // vertical travel (px): figure-eight in the air, hops on the ground
+  periodMs: number;             // one full swing
+  fireEveryMs: number;          // 0 = holds fire
+}
+
+export interface BossDef {
+  id: BossId;
+  name: string;
+  texture: string;      // hull; frame per phase, then a wreck frame
+  width: number;        // armoured hull that stops bullets
+  height: number;
+  anchorX: number;      // where it holds station, from the station's start
+  homeY: number;        // centre height
+  grounded: boolean;    // walks the ground instead of flying
+  muzzle: BossWeakPointDef; // where its shots come from
+  weakPointHp: number;
+  weakPointRadius: number;
+  points: number;       // bonus for bringing it down
+  phases: BossPhase[];
+}
+
+export const BOSSES: Record<BossId, BossDef> = {
+  blimp: {
+    id: 'blimp',
+    name: 'SKY BARON',
+    texture: 'boss_blimp',
+    width: 176,
+    height: 64,
+    anchorX: 1180,
+    homeY: 110,
+    grounded: false,
+    muzzle: { x: 0, y: 30 },
+    weakPointHp: 2,
+    weakPointRadius: 9,
+    points: 1000,
+    phases: [
+      {
+        name: 'ENGINES',
+        weakPoints: [{ x: -62, y: 22 }, { x: 62, y: 22 }],
+        swayX: 30, swayY: 10, periodMs: 4000, fireEveryMs: 0,
+      },
+      {
+        name: 'GONDOLA',
+        weakPoints: [{ x: 0, y: 24 }],
+        swayX: 110, swayY: 12, periodMs: 3200, fireEveryMs: 2200,
+      },
+      {
+        name: 'GAS CELLS',
+        weakPoints: [{ x: -36, y: -14 }, { x: 36, y: -14 }],
+        swayX: 80, swayY: 40, periodMs: 2200, fireEveryMs: 1400,
+      },
+    ],
+  },
+  mech: {
+    id: 'mech',
+    name: 'IRON STRIDER',
+    texture: 'boss_mech',
+    width: 96,
+    height: 112,
+    anchorX: 1560,
+    homeY: GROUND_Y - 56,
+    grounded: true,
+    muzzle: { x: 30, y: -44 },
+    weakPointHp: 3,
+    weakPointRadius: 10,
+    points: 1500,
+    phases: [
+      {
+        name: 'KNEES',
+        weakPoints: [{ x: -22, y: 30 }, { x: 22, y: 30 }],
+        swayX: 40, swayY: 0, periodMs: 3600, fireEveryMs: 0,
+      },
+      {
+        name: 'CANNON',
+        weakPoints: [{ x: 30, y: -36 }],
+        swayX: 70, swayY: 0, periodMs: 2800, fireEveryMs: 1800,
+      },
+      {
+        name: 'CORE',
+        weakPoints: [{ x: 0, y: -10 }],
+        swayX: 60, swayY: 26, periodMs: 1600, fireEveryMs: 1100,
+      },
+    ],
+  },
+};
+
+/** Bosses take turns, one per boss stage */
+export const BOSS_ORDER: BossId[] = ['blimp', 'mech'];
+
+/** Hits needed to break every weak point */
+export function bossMaxHealth(def: BossDef): number {
+  return def.phases.reduce((sum, phase) => sum + phase.weakPoints.length, 0) * def.weakPointHp;
+}
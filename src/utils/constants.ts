@@ -10,7 +10,14 @@ export const VAULT_PLANT_X = 640;
 
 // Player
 export const PLAYER_RUN_SPEED_MAX = 300;
-export const PLAYER_RUN_ACCEL = 200;
+export const PLAYER_RUN_FRICTION = 45;       // px/s² lost while not striding
+export const STRIDE_BOOST = 38;              // px/s gained by a perfect stride
+export const STRIDE_INTERVAL_SLOW = 420;     // ideal ms between strides from a standstill
+export const STRIDE_INTERVAL_FAST = 220;     // ideal ms between strides at top speed
+export const STRIDE_PERFECT_WINDOW = 0.12;   // fraction of the ideal interval
+export const STRIDE_GOOD_WINDOW = 0.35;
+export const STRIDE_STUMBLE_MS = 350;
+export const PENULTIMATE_BONUS = 0.15;       // extra pole drive from two clean final strides
 export const PLAYER_WIDTH = 32;
 export const PLAYER_HEIGHT = 64;
 
@@ -21,11 +28,58 @@ export const MIN_VAULT_POWER = 200;
 export const MAX_VAULT_POWER = 600;
 export const ANGLE_ADJUST_SPEED = 60; // degrees per second
 
+// Pole spring model (bend is normalised: 0 = straight, 1 = max flex)
+export const POLE_LENGTH = 128;
+export const POLE_STIFFNESS = 60;       // spring constant; sets how fast the pole loads and recoils
+export const POLE_DAMPING = 1.2;        // energy lost while flexing
+export const POLE_MAX_BEND = 1;         // over-bending past this wastes the excess energy
+export const POLE_PLANT_LEAN = -20;     // degrees from vertical (negative = back toward the athlete)
+export const POLE_RELEASE_LEAN = 25;    // degrees from vertical when the pole finishes straightening
+export const POLE_RECOIL_SPEED = 680;   // launch speed (px/s) for a full-bend recoil
+export const POLE_RECOIL_X_SHARE = 0.53; // horizontal launch damping (mostly up, a little forward)
+export const VAULT_FLIGHT_MS = 350;     // free flight after the pole lets go, before shooting starts
+
+// Crossbar
+export const CROSSBAR_X = VAULT_PLANT_X + 90;
+export const PIXELS_PER_METER = 30;
+export const CROSSBAR_UPRIGHT_HEIGHT = 176; // tallest bar the uprights can hold (~5.8 m)
+
+// Landing pit (foam mats past the crossbar)
+export const PIT_START_X = 1000;
+export const PIT_END_X = 1450;
+export const PIT_TOP_Y = GROUND_Y - 14;
+export const LANDING_CLEAN_VY = 420;  // px/s; touching down softer than this can be clean
+export const LANDING_ROUGH_VY = 640;
+export const LANDING_CLEAN_TILT = 25; // degrees off upright
+export const LANDING_ROUGH_TILT = 70;
+
 // Shooting
 export const BULLET_SPEED = 700;
 export const MAX_AMMO = 200;
+export const MAGAZINE_SIZE = 6;
+export const RICOCHET_MAX_ANGLE = 25;   // degrees off the surface; steeper impacts stop the bullet
+export const RICOCHET_SPEED_KEEP = 0.7; // share of speed kept per bounce
+export const MAX_RICOCHETS = 2;
+export const PENETRATION_SPEED_KEEP = 0.6; // share of speed kept after punching through a target
+export const RELOAD_TIME = 0.8; // seconds
 export const AIR_TIME_BASE = 3.5; // seconds of air time at max vault
 
+// Focus (bullet time)
+export const FOCUS_MAX = 2;             // seconds of slow motion a full meter buys (real time)
+export const FOCUS_TIME_SCALE = 0.35;   // game speed while focusing
+export const FOCUS_REFILL_BULLSEYE = 0.5;
+export const FOCUS_REFILL_COMBO = 0.25; // per hit once a combo is going
+
+// Air control (A/D while airborne)
+export const AIR_STAMINA_MAX = 1.2;            // seconds of steering per airborne window
+export const AIR_CONTROL_ACCEL = 260;          // px/s² while steering
+export const AIR_CONTROL_MAX_SPEED = 150;      // steering alone can't push past this; recoil and wind can
+export const AIR_CONTROL_RECOIL_LOCK_MS = 200; // steering cuts out after each recoil kick so shots still move you
+
+// Mid-air tricks
+export const TRICK_CHAIN_WINDOW_MS = 350; // start the next trick this soon after one finishes to chain it
+export const STYLE_MULT_MAX = 2.5;        // cap on the style multiplier tricks build up
+
 // Targets
 export const TARGET_SIZE = 32;
 export const TARGET_MIN_Y = 210;
@@ -33,15 +87,93 @@ export const TARGET_MAX_Y = 370;
 export const TARGET_MIN_X = 980;
 export const TARGET_MAX_X = 1250;
 export const MOVING_TARGET_SPEED = 80;
+export const ARMORED_TARGET_HITS = 3;
+export const EXPLOSIVE_TARGET_RADIUS = 90;
+
+// Wind (m/s, positive blows toward the landing pit)
+export const WIND_ATHLETE_ACCEL = 6;   // px/s² on the athlete per m/s
+export const WIND_BULLET_ACCEL = 25;   // px/s² on bullets per m/s
+export const WIND_GUST_SHARE = 0.5;    // gusts add up to this share of the level's max wind
+export const CLOUD_BASE_DRIFT = -0.2;  // cloud px per frame in still air (leftward)
+export const WIND_CLOUD_DRIFT = 0.08;  // extra cloud px per frame per m/s
+
+// Air hazards
+export const ATHLETE_MAX_HEALTH = 3;
+export const HURT_INVULNERABLE_MS = 900; // grace period after a hit
+export const HAZARD_KNOCKBACK = 140;     // px/s shove on the athlete from a hit
+export const BIRD_SPEED = 150;
+export const DRONE_FIRE_INTERVAL = 1500; // ms between shots
+export const DRONE_SHOT_SPEED = 140;
+export const BALLOON_RISE_SPEED = 25;
+
+// Power-ups
+export const POWERUP_PICKUP_RADIUS = 22;
+export const POWERUP_DROP_SPEED = 45;     // px/s a capsule falls after dropping from a target
+export const POWERUP_AIR_TIME_BONUS = 1;  // seconds added to the current airborne window
+export const POWERUP_TRIPLE_SPREAD = 8;   // degrees between the three volleys
+export const POWERUP_HIT_RADIUS_BONUS = 8; // px of extra reach on every round
+export const POWERUP_SCORE_MULT = 2;
+export const POWERUP_MAGNET_ACCEL = 240;  // px/s² pull toward the nearest target
 
 // Spike wall (at the far right of the stage)
 export const SPIKE_WALL_X = 1700;
 
+// Multi-station courses: each extra station repeats plant box, crossbar, pit and targets this far on
+export const STATION_SPACING = 1100;
+
+// Boss stages
+export const BOSS_EVERY = 5;              // every fifth level / wave is a boss stage
+export const BOSS_SHOT_SPEED = 170;
+export const BOSS_RELOCATE_MS = 1800;     // time to follow the athlete to the next station
+
 // Scoring
-export const POINTS_BULLSEYE = 100;
-export const POINTS_HIT = 50;
+// Target rings, innermost first. Radii (px, unscaled) match the circles painted in BootScene's
+// drawBullseye; the edge ring is the whole visible disc. Hits are measured from the bullet's edge.
+export const TARGET_RINGS = [
+  { name: 'BULLSEYE', radius: 2,  points: 100 },
+  { name: 'INNER',    radius: 5,  points: 75 },
+  { name: 'MIDDLE',   radius: 8,  points: 50 },
+  { name: 'OUTER',    radius: 11, points: 25 },
+  { name: 'EDGE',     radius: 14, points: 10 },
+];
 export const POINTS_MOVING_BONUS = 25;
 export const VAULT_HEIGHT_BONUS_MULT = 2;
+export const POINTS_WAVE_CLEAR = 50; // per wave number
+export const POINTS_AMMO_LEFT = 20;   // per unspent round at landing
+export const POINTS_BAR_PER_METER = 50; // clean clearance bonus per metre of bar height
+export const PENALTY_BAR_KNOCK = 100;
+export const POINTS_ARMORED_BONUS = 50;
+export const GOLDEN_POINTS_MULT = 3;
+export const PENALTY_DECOY = 150;
+export const POINTS_TRICK_SHOT = 75;  // target destroyed by a ricochet
+export const POINTS_LANDING_CLEAN = 100;
+export const POINTS_LANDING_ROUGH = 25;
+export const PENALTY_FACEPLANT = 50;
+export const POINTS_BOSS_WEAKPOINT = 150;
+
+// Level mode competition rules
+export const ATTEMPTS_PER_LEVEL = 3;
+export const RUN_STOP_FOUL_MS = 600; // standing still this long mid run-up is a foul
+
+// Arcade
+export const ARCADE_START_LIVES = 3;
+
+// Hot seat
+export const HOTSEAT_MIN_PLAYERS = 2;
+export const HOTSEAT_MAX_PLAYERS = 4;
+export const HOTSEAT_ROUNDS = 3;       // round N is level N; ties at the top then go to sudden death
+export const HOTSEAT_NAME_LENGTH = 8;
+
+// Time attack
+export const TIME_ATTACK_LEVELS = 5;             // levels 1-N of the level table, back to back
+export const TIME_ATTACK_MISS_PENALTY_MS = 5000; // added to the clock per target left standing
+
+// Ghost runs (best attempt per level and mode, replayed alongside the athlete)
+export const GHOST_SAMPLE_MS = 50;      // one position sample per this much game time
+export const GHOST_MAX_SAMPLES = 1200;  // a minute of run; anything longer stops recording
+export const GHOST_ALPHA = 0.35;
+export const GHOST_TRACER_MS = 400;     // how long a ghost bullet stays on screen
+export const GHOST_MAX_STORED = 12;     // least recently used ghosts beyond this are dropped
 
 // Colors (retro palette)
 export const COLORS = {
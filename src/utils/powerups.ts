@@ -0,0 +1,25 @@
+/**
+ * Mid-air power-up definitions.
+ * PowerUp capsules draw from this data; GameScene applies the effects and runs the HUD countdowns.
+ */
+
+export type PowerUpId = 'airtime' | 'tripleshot' | 'bighit' | 'doubler' | 'ammo' | 'magnet';
+
+export interface PowerUpDef {
+  id: PowerUpId;
+  name: string;
+  frame: number;        // frame in the 'powerup' capsule texture (also the HUD icon)
+  color: string;        // pickup text colour
+  durationMs: number;   // 0 = instant; timed ones only count down while airborne
+}
+
+export const POWER_UPS: Record<PowerUpId, PowerUpDef> = {
+  airtime:    { id: 'airtime',    name: 'EXTRA TIME',  frame: 0, color: '#66ddff', durationMs: 0 },
+  tripleshot: { id: 'tripleshot', name: 'TRIPLE SHOT', frame: 1, color: '#ffaa33', durationMs: 4000 },
+  bighit:     { id: 'bighit',     name: 'BIG HITS',    frame: 2, color: '#ff5555', durationMs: 5000 },
+  doubler:    { id: 'doubler',    name: 'SCORE x2',    frame: 3, color: '#ffdd44', durationMs: 5000 },
+  ammo:       { id: 'ammo',       name: 'AMMO',        frame: 4, color: '#66ff66', durationMs: 0 },
+  magnet:     { id: 'magnet',     name: 'MAGNET',      frame: 5, color: '#cc88ff', durationMs: 3000 },
+};
+
+export const POWER_UP_ORDER: PowerUpId[] = ['ammo', 'airtime', 'tripleshot', 'bighit', 'doubler', 'magnet'];
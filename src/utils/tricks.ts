@@ -0,0 +1,67 @@
+/**
+ * Mid-air trick definitions.
+ * Player animates them and GameScene maps keys, chains and scoring from this data.
+ */
+
+export type TrickId = 'backflip' | 'frontflip' | 'twist' | 'superman';
+
+export interface TrickDef {
+  id: TrickId;
+  name: string;
+  key: string;          // keyboard key that starts it
+  durationMs: number;   // can't shoot until it's finished; still spinning at touchdown = bail
+  spin: number;         // rotation over the whole trick (radians, negative = backward)
+  lean: number;         // extra rotation held through the middle of the trick (radians)
+  frames: number[];     // player sprite frames played across the trick
+  points: number;       // banked on landing, times the chain length
+  style: number;        // added to the style multiplier when completed
+}
+
+export const TRICKS: Record<TrickId, TrickDef> = {
+  backflip: {
+    id: 'backflip',
+    name: 'BACKFLIP',
+    key: 'Q',
+    durationMs: 600,
+    spin: -Math.PI * 2,
+    lean: 0,
+    frames: [23, 24, 23],
+    points: 150,
+    style: 0.25,
+  },
+  frontflip: {
+    id: 'frontflip',
+    name: 'FRONTFLIP',
+    key: 'E',
+    durationMs: 650,
+    spin: Math.PI * 2,
+    lean: 0,
+    frames: [23, 24, 23],
+    points: 175,
+    style: 0.25,
+  },
+  twist: {
+    id: 'twist',
+    name: 'TWIST',
+    key: 'F',
+    durationMs: 500,
+    spin: 0,
+    lean: 0,
+    frames: [9, 25, 26, 25],
+    points: 100,
+    style: 0.15,
+  },
+  superman: {
+    id: 'superman',
+    name: 'SUPERMAN',
+    key: 'C',
+    durationMs: 800,
+    spin: 0,
+    lean: Math.PI / 2,
+    frames: [27],
+    points: 200,
+    style: 0.35,
+  },
+};
+
+export const TRICK_ORDER: TrickId[] = ['backflip', 'frontflip', 'twist', 'superman'];
@@ -0,0 +1,154 @@
+/**
+ * Weapon definitions for the loadout picker.
+ * Gun, Bullet and GameScene.fireGun are driven entirely by this data.
+ */
+
+import { BULLET_SPEED } from './constants';
+
+export type WeaponId = 'pistol' | 'shotgun' | 'rifle' | 'smg' | 'launcher';
+
+export interface WeaponDef {
+  id: WeaponId;
+  name: string;
+  description: string;
+  cooldownMs: number;      // time between trigger pulls
+  projectiles: number;     // projectiles per round (shotgun pellets)
+  spreadDeg: number;       // total cone the projectiles are scattered over
+  speed: number;           // px/s
+  lifespanMs?: number;     // projectiles vanish after this (short-range pellets)
+  gravity: number;         // bullet drop (px/s²)
+  ricochet: boolean;       // glances off hard surfaces at shallow angles (otherwise stops or detonates)
+  penetration: number;     // targets a round punches through once it has broken them, slowing each time
+  burstCount: number;      // rounds fired per trigger pull
+  burstIntervalMs: number;
+  pierce: number;          // extra targets a projectile passes through
+  explosionRadius: number; // 0 = no blast
+  recoil: number;          // push on the athlete per round (px/s)
+  shake: number;           // camera shake intensity per round
+  sound: string;
+  gunTexture: string;
+  gunSize: { w: number; h: number };
+  bulletTexture: string;
+  bulletSize: { w: number; h: number };
+}
+
+export const WEAPONS: Record<WeaponId, WeaponDef> = {
+  pistol: {
+    id: 'pistol',
+    name: 'PISTOL',
+    description: 'Reliable all-rounder',
+    cooldownMs: 150,
+    projectiles: 1,
+    spreadDeg: 0,
+    speed: BULLET_SPEED,
+    gravity: 120,
+    ricochet: true,
+    penetration: 1,
+    burstCount: 1,
+    burstIntervalMs: 0,
+    pierce: 0,
+    explosionRadius: 0,
+    recoil: 20,
+    shake: 0.003,
+    sound: 'sfx_gunshot',
+    gunTexture: 'gun',
+    gunSize: { w: 16, h: 10 },
+    bulletTexture: 'bullet',
+    bulletSize: { w: 6, h: 3 },
+  },
+  shotgun: {
+    id: 'shotgun',
+    name: 'SHOTGUN',
+    description: '6 pellets, short range',
+    cooldownMs: 600,
+    projectiles: 6,
+    spreadDeg: 18,
+    speed: 620,
+    lifespanMs: 450,
+    gravity: 200,
+    ricochet: true,
+    penetration: 0,
+    burstCount: 1,
+    burstIntervalMs: 0,
+    pierce: 0,
+    explosionRadius: 0,
+    recoil: 70,
+    shake: 0.007,
+    sound: 'sfx_shotgun',
+    gunTexture: 'gun_shotgun',
+    gunSize: { w: 22, h: 10 },
+    bulletTexture: 'pellet',
+    bulletSize: { w: 3, h: 3 },
+  },
+  rifle: {
+    id: 'rifle',
+    name: 'RIFLE',
+    description: 'Fast round pierces 2 targets',
+    cooldownMs: 500,
+    projectiles: 1,
+    spreadDeg: 0,
+    speed: 1100,
+    gravity: 40,
+    ricochet: true,
+    penetration: 0,
+    burstCount: 1,
+    burstIntervalMs: 0,
+    pierce: 2,
+    explosionRadius: 0,
+    recoil: 45,
+    shake: 0.005,
+    sound: 'sfx_rifle',
+    gunTexture: 'gun_rifle',
+    gunSize: { w: 24, h: 8 },
+    bulletTexture: 'rifle_round',
+    bulletSize: { w: 9, h: 2 },
+  },
+  smg: {
+    id: 'smg',
+    name: 'SMG',
+    description: '3-round burst',
+    cooldownMs: 380,
+    projectiles: 1,
+    spreadDeg: 6,
+    speed: 750,
+    gravity: 150,
+    ricochet: true,
+    penetration: 1,
+    burstCount: 3,
+    burstIntervalMs: 70,
+    pierce: 0,
+    explosionRadius: 0,
+    recoil: 12,
+    shake: 0.002,
+    sound: 'sfx_smg',
+    gunTexture: 'gun_smg',
+    gunSize: { w: 16, h: 11 },
+    bulletTexture: 'bullet',
+    bulletSize: { w: 5, h: 2 },
+  },
+  launcher: {
+    id: 'launcher',
+    name: 'LAUNCHER',
+    description: 'Slow shell, blast radius',
+    cooldownMs: 900,
+    projectiles: 1,
+    spreadDeg: 0,
+    speed: 380,
+    gravity: 450,
+    ricochet: false,
+    penetration: 0,
+    burstCount: 1,
+    burstIntervalMs: 0,
+    pierce: 0,
+    explosionRadius: 70,
+    recoil: 90,
+    shake: 0.01,
+    sound: 'sfx_launcher',
+    gunTexture: 'gun_launcher',
+    gunSize: { w: 22, h: 12 },
+    bulletTexture: 'grenade',
+    bulletSize: { w: 6, h: 6 },
+  },
+};
+
+export const WEAPON_ORDER: WeaponId[] = ['pistol', 'shotgun', 'rifle', 'smg', 'launcher'];